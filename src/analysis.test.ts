@@ -0,0 +1,263 @@
+import { describe, expect, test } from "bun:test";
+import alea from "alea";
+import {
+	AudioAnalyser,
+	balance,
+	bandLevels,
+	binIndex,
+	correlation,
+	levels,
+	logBandEdges,
+	normalize,
+	smooth,
+	spectralCentroid,
+	spectralFlux,
+	spectralRolloff,
+	stereoWidth,
+	sumRange,
+} from "./analysis";
+
+const sampleRate = 44100;
+const binCount = 1024;
+const width = sampleRate / (binCount * 2);
+
+// Byte spectrum of a pure tone: a peak at `freq` with a little leakage
+function sineSpectrum(freq: number, level = 255) {
+	const spectrum = new Uint8Array(binCount);
+	const center = Math.round(freq / width);
+
+	for (let i = -2; i <= 2; i++) {
+		const bin = center + i;
+		if (bin >= 0 && bin < binCount) {
+			spectrum[bin] = Math.round(level * Math.exp(-i * i));
+		}
+	}
+
+	return spectrum;
+}
+
+function noiseSpectrum(seed: string) {
+	const random = alea(seed);
+	const spectrum = new Uint8Array(binCount);
+
+	for (let i = 0; i < binCount; i++) {
+		spectrum[i] = Math.floor(random() * 256);
+	}
+
+	return spectrum;
+}
+
+describe("sumRange", () => {
+	test("counts only the bins it sums when clamped", () => {
+		const spectrum = new Uint8Array(10).fill(10);
+
+		expect(sumRange(spectrum, 5, 20)).toEqual({ sum: 50, count: 5 });
+		expect(sumRange(spectrum, -3, 2)).toEqual({ sum: 20, count: 2 });
+		expect(sumRange(spectrum, 12, 20)).toEqual({ sum: 0, count: 0 });
+	});
+
+	test("keeps full-scale levels full-scale at low sample rates", () => {
+		// 20kHz is past Nyquist here, which used to inflate the bin count
+		const spectrum = new Uint8Array(binCount).fill(255);
+
+		expect(levels(spectrum, 22050).high).toBeCloseTo(normalize(255, 1));
+	});
+});
+
+describe("normalize and smooth", () => {
+	test("normalize maps silence to 0 and full scale to 5", () => {
+		expect(normalize(0, 10)).toBe(0);
+		expect(normalize(2550, 10)).toBeCloseTo(5);
+		expect(normalize(0, 0)).toBe(0);
+	});
+
+	test("smooth blends by the factor", () => {
+		expect(smooth(1, 0, 0.8)).toBeCloseTo(0.8);
+		expect(smooth(0, 1, 0)).toBe(1);
+	});
+});
+
+describe("band mapping", () => {
+	test("binIndex follows the analyser bin width", () => {
+		expect(binIndex(0, sampleRate, binCount)).toBe(0);
+		expect(binIndex(width * 10.5, sampleRate, binCount)).toBe(10);
+	});
+
+	test.each([
+		[80, "low"],
+		[1000, "mid"],
+		[6000, "high"],
+	] as const)("a %dHz tone lands in %s", (freq, band) => {
+		const result = levels(sineSpectrum(freq), sampleRate);
+		const loudest = (["low", "mid", "high"] as const).reduce((a, b) =>
+			result[a] >= result[b] ? a : b,
+		);
+
+		expect(loudest).toBe(band);
+	});
+
+	test("log bands span 20Hz to Nyquist and are never empty", () => {
+		const edges = logBandEdges(32, 20, sampleRate / 2);
+
+		expect(edges).toHaveLength(33);
+		expect(edges[0]).toBeCloseTo(20);
+		expect(edges[32]).toBeCloseTo(sampleRate / 2);
+
+		const out = bandLevels(
+			new Uint8Array(binCount).fill(255),
+			edges,
+			width,
+			new Float32Array(32),
+		);
+		expect([...out].every((level) => level === 1)).toBe(true);
+	});
+});
+
+describe("spectral features", () => {
+	test("centroid and rolloff of a tone sit at the tone", () => {
+		const spectrum = sineSpectrum(2000);
+
+		expect(spectralCentroid(spectrum, width)).toBeCloseTo(2000, -2);
+		expect(Math.abs(spectralRolloff(spectrum, width) - 2000)).toBeLessThan(
+			width * 3,
+		);
+	});
+
+	test("white noise has its centroid near the middle", () => {
+		const centroid = spectralCentroid(noiseSpectrum("centroid"), width);
+
+		expect(centroid / (sampleRate / 2)).toBeCloseTo(0.5, 1);
+	});
+
+	test("flux only counts rising bins", () => {
+		const previous = new Float32Array(binCount);
+
+		expect(spectralFlux(sineSpectrum(440), previous)).toBeGreaterThan(0);
+		expect(spectralFlux(new Uint8Array(binCount), previous)).toBe(0);
+	});
+
+	test("silence has no features", () => {
+		const silence = new Uint8Array(binCount);
+
+		expect(spectralCentroid(silence, width)).toBe(0);
+		expect(spectralRolloff(silence, width)).toBe(0);
+	});
+});
+
+function sine(phase = 0, level = 1) {
+	return Float32Array.from(
+		{ length: 1024 },
+		(_, i) => Math.sin((i / 32) * Math.PI * 2 + phase) * level,
+	);
+}
+
+describe("stereo", () => {
+	test("correlation is 1 for mono, -1 for inverted and 0 for silence", () => {
+		expect(correlation(sine(), sine())).toBeCloseTo(1);
+		expect(correlation(sine(), sine(Math.PI))).toBeCloseTo(-1);
+		// A quarter cycle apart the channels are unrelated
+		expect(correlation(sine(), sine(Math.PI / 2))).toBeCloseTo(0);
+		expect(correlation(sine(), new Float32Array(1024))).toBe(0);
+	});
+
+	test("width grows from mono to out of phase", () => {
+		expect(stereoWidth(sine(), sine())).toBeCloseTo(0);
+		expect(stereoWidth(sine(), sine(Math.PI / 2))).toBeCloseTo(0.5);
+		expect(stereoWidth(sine(), sine(Math.PI))).toBeCloseTo(1);
+	});
+
+	test("balance leans towards the louder channel", () => {
+		expect(balance(1, 1)).toBe(0);
+		expect(balance(1, 0)).toBe(-1);
+		expect(balance(0, 0.5)).toBe(1);
+		expect(balance(0, 0)).toBe(0);
+	});
+});
+
+describe("AudioAnalyser", () => {
+	test("is deterministic for the same input", () => {
+		const run = () => {
+			const analyser = new AudioAnalyser();
+			let frame = analyser.analyze(noiseSpectrum("0"), sampleRate);
+
+			for (let i = 1; i < 30; i++) {
+				frame = analyser.analyze(noiseSpectrum(String(i)), sampleRate);
+			}
+			return { ...frame, bands: [...frame.bands] };
+		};
+
+		expect(run()).toEqual(run());
+	});
+
+	test("accepts 0-1 float spectra the same as bytes", () => {
+		const bytes = sineSpectrum(300);
+		const floats = Float32Array.from(bytes, (value) => value / 255);
+
+		const fromBytes = new AudioAnalyser().analyze(bytes, sampleRate);
+		const fromFloats = new AudioAnalyser().analyze(floats, sampleRate);
+
+		expect(fromFloats.low).toBeCloseTo(fromBytes.low);
+		expect([...fromFloats.bands]).toEqual([...fromBytes.bands]);
+	});
+
+	test("smooths levels towards the input", () => {
+		const analyser = new AudioAnalyser();
+		const first = analyser.analyze(sineSpectrum(100), sampleRate).low;
+		let last = first;
+
+		for (let i = 0; i < 50; i++) {
+			last = analyser.analyze(sineSpectrum(100), sampleRate).low;
+		}
+
+		expect(first).toBeLessThan(last);
+		expect(last).toBeCloseTo(levels(sineSpectrum(100), sampleRate).low, 3);
+	});
+
+	test("treats mono input as two identical channels", () => {
+		const analyser = new AudioAnalyser();
+		analyser.params.smoothing = 0;
+		const { stereo } = analyser.analyze(
+			sineSpectrum(300),
+			sampleRate,
+			sine(),
+		);
+
+		expect(stereo.left.rms).toBe(stereo.right.rms);
+		expect(stereo.correlation).toBeCloseTo(1);
+		expect(stereo.width).toBeCloseTo(0);
+		expect(stereo.balance).toBe(0);
+	});
+
+	test("measures separate channels when given", () => {
+		const analyser = new AudioAnalyser();
+		analyser.params.smoothing = 0;
+		const spectrum = sineSpectrum(300);
+		const { stereo } = analyser.analyze(spectrum, sampleRate, sine(), 0, [
+			{ spectrum, waveform: sine(0, 0.2) },
+			{ spectrum, waveform: sine(Math.PI, 0.6) },
+		]);
+
+		expect(stereo.correlation).toBeCloseTo(-1);
+		expect(stereo.balance).toBeCloseTo(0.5);
+		expect(stereo.right.peak).toBeCloseTo(0.6);
+	});
+
+	test("extracts every feature per channel", () => {
+		const analyser = new AudioAnalyser();
+		analyser.params.smoothing = 0;
+		const bass = sineSpectrum(100);
+		const treble = sineSpectrum(5000);
+		const frame = analyser.analyze(bass, sampleRate, sine(), 0, [
+			{ spectrum: bass, waveform: sine() },
+			{ spectrum: treble, waveform: sine() },
+		]);
+		const { left, right } = frame.stereo;
+
+		expect(left.low).toBeGreaterThan(0);
+		expect(right.low).toBe(0);
+		expect(right.high).toBeGreaterThan(0);
+		expect(left.centroid).toBeLessThan(right.centroid);
+		expect([...left.bands]).not.toEqual([...right.bands]);
+		expect(left.beat).not.toBe(frame.beat);
+	});
+});
@@ -0,0 +1,405 @@
+import { BeatDetector } from "./beat";
+import { frequencyRanges } from "./constants";
+import type {
+	AudioData,
+	BandLevels,
+	ChannelData,
+	StereoData,
+} from "./types";
+
+// Either byte data from `getByteFrequencyData` or magnitudes scaled 0-1
+export type Spectrum = Uint8Array | Float32Array;
+
+export const minBandFrequency = 20;
+
+// Width in Hz of one bin of a spectrum with `binCount` bins (fftSize / 2)
+export function binWidth(sampleRate: number, binCount: number) {
+	return sampleRate / (binCount * 2);
+}
+
+export function binIndex(freq: number, sampleRate: number, binCount: number) {
+	return Math.floor(freq / binWidth(sampleRate, binCount));
+}
+
+// Sum of the bins in [start, end), clamped to the spectrum. `count` is the
+// number of bins actually summed.
+export function sumRange(spectrum: Uint8Array, start: number, end: number) {
+	const from = Math.max(0, Math.min(start, spectrum.length));
+	const to = Math.max(from, Math.min(end, spectrum.length));
+
+	let sum = 0;
+	for (let i = from; i < to; i++) {
+		sum += spectrum[i];
+	}
+
+	return { sum, count: to - from };
+}
+
+export function normalize(sum: number, count: number) {
+	if (count <= 0) return 0;
+
+	return Math.pow(sum / (count * 255), 1.5) * 5;
+}
+
+export function smooth(oldValue: number, newValue: number, factor: number) {
+	return factor * oldValue + (1 - factor) * newValue;
+}
+
+// Unsmoothed low/mid/high levels for the ranges in `frequencyRanges`
+export function levels(spectrum: Uint8Array, sampleRate: number): BandLevels {
+	const index = (freq: number) => binIndex(freq, sampleRate, spectrum.length);
+	const level = (lo: number, hi: number) => {
+		const { sum, count } = sumRange(spectrum, index(lo), index(hi));
+		return normalize(sum, count);
+	};
+
+	return {
+		low: level(frequencyRanges.lolo, frequencyRanges.lohi),
+		mid: level(frequencyRanges.midlo, frequencyRanges.midhi),
+		high: level(frequencyRanges.hilo, frequencyRanges.hihi),
+	};
+}
+
+// The AnalyserNode's default range, which byte spectra are scaled across
+export const minDecibels = -100;
+export const maxDecibels = -30;
+
+export function byteToDecibels(value: number) {
+	return minDecibels + (value / 255) * (maxDecibels - minDecibels);
+}
+
+// Scales a 0-1 spectrum to bytes, the same range the analyser node produces
+export function toBytes(spectrum: Float32Array, out: Uint8Array) {
+	for (let i = 0; i < spectrum.length; i++) {
+		out[i] = Math.round(Math.max(0, Math.min(1, spectrum[i])) * 255);
+	}
+
+	return out;
+}
+
+// `count + 1` log-spaced edges between `minFreq` and `maxFreq`
+export function logBandEdges(
+	count: number,
+	minFreq: number,
+	maxFreq: number,
+): number[] {
+	const edges: number[] = [];
+	const ratio = maxFreq / minFreq;
+
+	for (let i = 0; i <= count; i++) {
+		edges.push(minFreq * Math.pow(ratio, i / count));
+	}
+
+	return edges;
+}
+
+// Mean level (0-1) of the bins in each band. Every band reads at least one
+// bin so the narrow low bands don't come out empty at small FFT sizes.
+export function bandLevels(
+	spectrum: Uint8Array,
+	edges: number[],
+	binWidth: number,
+	out: Float32Array,
+): Float32Array {
+	for (let band = 0; band < out.length; band++) {
+		const start = Math.min(
+			Math.floor(edges[band] / binWidth),
+			spectrum.length - 1,
+		);
+		const end = Math.min(
+			Math.max(start + 1, Math.floor(edges[band + 1] / binWidth)),
+			spectrum.length,
+		);
+
+		let sum = 0;
+		for (let i = start; i < end; i++) {
+			sum += spectrum[i];
+		}
+
+		out[band] = sum / ((end - start) * 255);
+	}
+
+	return out;
+}
+
+export function rms(waveform: Float32Array): number {
+	if (waveform.length === 0) return 0;
+
+	let sum = 0;
+	for (let i = 0; i < waveform.length; i++) {
+		sum += waveform[i] * waveform[i];
+	}
+
+	return Math.sqrt(sum / waveform.length);
+}
+
+export function peak(waveform: Float32Array): number {
+	let max = 0;
+	for (let i = 0; i < waveform.length; i++) {
+		max = Math.max(max, Math.abs(waveform[i]));
+	}
+
+	return max;
+}
+
+// Pearson correlation of two waveforms, 0 when either is silent
+export function correlation(left: Float32Array, right: Float32Array) {
+	const length = Math.min(left.length, right.length);
+	let product = 0;
+	let leftEnergy = 0;
+	let rightEnergy = 0;
+
+	for (let i = 0; i < length; i++) {
+		product += left[i] * right[i];
+		leftEnergy += left[i] * left[i];
+		rightEnergy += right[i] * right[i];
+	}
+
+	const energy = Math.sqrt(leftEnergy * rightEnergy);
+	return energy > 0 ? product / energy : 0;
+}
+
+// Side energy over the total of mid and side, 0 when silent
+export function stereoWidth(left: Float32Array, right: Float32Array) {
+	const length = Math.min(left.length, right.length);
+	let mid = 0;
+	let side = 0;
+
+	for (let i = 0; i < length; i++) {
+		const m = left[i] + right[i];
+		const s = left[i] - right[i];
+		mid += m * m;
+		side += s * s;
+	}
+
+	const total = mid + side;
+	return total > 0 ? side / total : 0;
+}
+
+// -1 when only the left channel has any level, 1 for only the right
+export function balance(leftLevel: number, rightLevel: number) {
+	const total = leftLevel + rightLevel;
+	return total > 0 ? (rightLevel - leftLevel) / total : 0;
+}
+
+// Magnitude-weighted mean frequency, in Hz
+export function spectralCentroid(spectrum: Uint8Array, binWidth: number) {
+	let weighted = 0;
+	let total = 0;
+
+	for (let i = 0; i < spectrum.length; i++) {
+		weighted += i * binWidth * spectrum[i];
+		total += spectrum[i];
+	}
+
+	return total > 0 ? weighted / total : 0;
+}
+
+// Frequency below which `fraction` of the spectral energy sits, in Hz
+export function spectralRolloff(
+	spectrum: Uint8Array,
+	binWidth: number,
+	fraction = 0.85,
+) {
+	let total = 0;
+	for (let i = 0; i < spectrum.length; i++) {
+		total += spectrum[i];
+	}
+	if (total === 0) return 0;
+
+	const threshold = total * fraction;
+	let sum = 0;
+
+	for (let i = 0; i < spectrum.length; i++) {
+		sum += spectrum[i];
+		if (sum >= threshold) {
+			return i * binWidth;
+		}
+	}
+
+	return 0;
+}
+
+// Mean positive change (0-1) since the previous spectrum. `previous` is
+// overwritten with the current spectrum.
+export function spectralFlux(spectrum: Uint8Array, previous: Float32Array) {
+	let flux = 0;
+
+	for (let i = 0; i < spectrum.length; i++) {
+		const value = spectrum[i] / 255;
+		flux += Math.max(0, value - previous[i]);
+		previous[i] = value;
+	}
+
+	return spectrum.length > 0 ? flux / spectrum.length : 0;
+}
+
+// Byte spectrum and waveform of one channel, as read off an AnalyserNode
+export interface ChannelInput {
+	spectrum: Uint8Array;
+	waveform: Float32Array;
+}
+
+interface AnalysisParams {
+	bands: number;
+	smoothing: number;
+}
+
+// The smoothing, flux and beat history of one signal
+class SignalAnalyser {
+	public readonly beatDetector = new BeatDetector();
+
+	private bytes = new Uint8Array(0);
+	private previousSpectrum = new Float32Array(0);
+	private smoothedLevels: BandLevels = { low: 0, mid: 0, high: 0 };
+	private bandEdges: number[] = [];
+	private rawBands = new Float32Array(0);
+	private smoothedBands = new Float32Array(0);
+	private bandSampleRate = 0;
+
+	constructor(private params: AnalysisParams) {}
+
+	analyze(
+		spectrum: Spectrum,
+		sampleRate: number,
+		waveform: Float32Array,
+		time: number,
+	): ChannelData {
+		const data = this.toByteSpectrum(spectrum);
+		const width = binWidth(sampleRate, data.length);
+		const factor = this.params.smoothing;
+
+		if (
+			this.rawBands.length !== this.params.bands ||
+			this.bandSampleRate !== sampleRate
+		) {
+			this.initBands(sampleRate);
+		}
+
+		const raw = levels(data, sampleRate);
+		this.smoothedLevels = {
+			low: smooth(this.smoothedLevels.low, raw.low, factor),
+			mid: smooth(this.smoothedLevels.mid, raw.mid, factor),
+			high: smooth(this.smoothedLevels.high, raw.high, factor),
+		};
+
+		bandLevels(data, this.bandEdges, width, this.rawBands);
+		for (let i = 0; i < this.rawBands.length; i++) {
+			this.smoothedBands[i] = smooth(
+				this.smoothedBands[i],
+				this.rawBands[i],
+				factor,
+			);
+		}
+
+		return {
+			...this.smoothedLevels,
+			bands: this.smoothedBands,
+			rms: rms(waveform),
+			peak: peak(waveform),
+			centroid: spectralCentroid(data, width),
+			flux: spectralFlux(data, this.previousSpectrum),
+			rolloff: spectralRolloff(data, width),
+			frequencyData: data,
+			waveform,
+			beat: this.beatDetector.detect(this.rawBands, this.bandEdges, time),
+		};
+	}
+
+	private toByteSpectrum(spectrum: Spectrum) {
+		if (spectrum.length !== this.previousSpectrum.length) {
+			this.previousSpectrum = new Float32Array(spectrum.length);
+		}
+		if (spectrum instanceof Uint8Array) {
+			return spectrum;
+		}
+		if (spectrum.length !== this.bytes.length) {
+			this.bytes = new Uint8Array(spectrum.length);
+		}
+
+		return toBytes(spectrum, this.bytes);
+	}
+
+	private initBands(sampleRate: number) {
+		const count = this.params.bands;
+
+		this.bandEdges = logBandEdges(count, minBandFrequency, sampleRate / 2);
+		this.rawBands = new Float32Array(count);
+		this.smoothedBands = new Float32Array(count);
+		this.bandSampleRate = sampleRate;
+	}
+}
+
+// Turns spectra into analysis frames. It holds the state that spans frames
+// (smoothing, flux and beat history) but does no audio I/O, so the same
+// input sequence always gives the same frames.
+export class AudioAnalyser {
+	public params: AnalysisParams = {
+		bands: 16,
+		smoothing: 0.8,
+	};
+	// The mix's. Its params are shared with the channels' detectors.
+	public readonly beatDetector: BeatDetector;
+
+	private mix = new SignalAnalyser(this.params);
+	private channels = [
+		new SignalAnalyser(this.params),
+		new SignalAnalyser(this.params),
+	];
+	private frame = 0;
+	private smoothedStereo = { correlation: 0, width: 0, balance: 0 };
+
+	constructor() {
+		this.beatDetector = this.mix.beatDetector;
+		for (const channel of this.channels) {
+			channel.beatDetector.params = this.beatDetector.params;
+		}
+	}
+
+	// `time` is in seconds and drives the beat tracking. Without one, frames
+	// are assumed to be 1/60s apart. Without `channels`, both sides of the
+	// stereo data are the mono input.
+	public analyze(
+		spectrum: Spectrum,
+		sampleRate: number,
+		waveform: Float32Array = new Float32Array(0),
+		time = this.frame / 60,
+		channels?: [ChannelInput, ChannelInput],
+	): AudioData {
+		this.frame++;
+
+		const mix = this.mix.analyze(spectrum, sampleRate, waveform, time);
+		const [left, right] = channels
+			? channels.map(({ spectrum, waveform }, i) =>
+					this.channels[i].analyze(spectrum, sampleRate, waveform, time),
+				)
+			: [mix, mix];
+
+		return {
+			...mix,
+			sampleRate,
+			stereo: this.analyzeStereo(left, right),
+		};
+	}
+
+	private analyzeStereo(left: ChannelData, right: ChannelData): StereoData {
+		const factor = this.params.smoothing;
+		const previous = this.smoothedStereo;
+
+		this.smoothedStereo = {
+			correlation: smooth(
+				previous.correlation,
+				correlation(left.waveform, right.waveform),
+				factor,
+			),
+			width: smooth(
+				previous.width,
+				stereoWidth(left.waveform, right.waveform),
+				factor,
+			),
+			balance: smooth(previous.balance, balance(left.rms, right.rms), factor),
+		};
+
+		return { left, right, ...this.smoothedStereo };
+	}
+}
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { logBandEdges } from "./analysis";
+import { BeatDetector } from "./beat";
+
+const fps = 60;
+const edges = logBandEdges(8, 20, 22050);
+
+// Band levels for `seconds` of a kick every `60 / bpm` seconds
+function* kicks(bpm: number, seconds: number) {
+	const bands = new Float32Array(8);
+	const period = 60 / bpm;
+
+	for (let frame = 0; frame < seconds * fps; frame++) {
+		const time = frame / fps;
+		const sinceKick = time % period;
+
+		bands.fill(0.1);
+		bands[0] = bands[1] = 0.1 + 0.8 * Math.exp(-sinceKick * 20);
+
+		yield { bands, time };
+	}
+}
+
+describe("BeatDetector", () => {
+	test("finds one beat per kick", () => {
+		const detector = new BeatDetector();
+		let beats = 0;
+
+		for (const { bands, time } of kicks(120, 10)) {
+			if (detector.detect(bands, edges, time).isBeat) beats++;
+		}
+
+		// The first half second is spent filling the threshold history
+		expect(beats).toBeGreaterThanOrEqual(18);
+		expect(beats).toBeLessThanOrEqual(20);
+	});
+
+	test("estimates the tempo and keeps the phase in range", () => {
+		const detector = new BeatDetector();
+		let beat = detector.detect(new Float32Array(8), edges, 0);
+
+		for (const { bands, time } of kicks(128, 12)) {
+			beat = detector.detect(bands, edges, time);
+			expect(beat.phase).toBeGreaterThanOrEqual(0);
+			expect(beat.phase).toBeLessThan(1);
+		}
+
+		expect(beat.bpm).toBeCloseTo(128, -1);
+	});
+
+	test("stays quiet on a steady signal", () => {
+		const detector = new BeatDetector();
+		const bands = new Float32Array(8).fill(0.5);
+
+		for (let frame = 0; frame < 300; frame++) {
+			expect(detector.detect(bands, edges, frame / fps).isBeat).toBe(false);
+		}
+	});
+});
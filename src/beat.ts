@@ -0,0 +1,156 @@
+import type { BeatData } from "./types";
+
+const historySize = 43; // ~0.7s of frames at 60fps
+const minFlux = 0.01;
+const maxBeatTimes = 16;
+// Tempo estimates are folded into this octave
+const minBpm = 80;
+const maxBpm = 160;
+
+// Onset detection on the positive flux of each analysis band, compared with
+// an adaptive threshold from that band's recent history. Onsets in the low
+// bands count as beats, which feed the tempo and phase estimate.
+export class BeatDetector {
+	public params = {
+		// Standard deviations above the local mean for a flux peak to count
+		sensitivity: 1.5,
+		// Bands whose upper edge is below this frequency drive the beat
+		beatCutoff: 150,
+		// Shortest gap between two onsets in the same band, in seconds
+		refractory: 0.1,
+		// How fast `pulse` falls back to 0 after a beat
+		pulseDecay: 6,
+	};
+
+	private previous = new Float32Array(0);
+	private history: Float32Array[] = [];
+	private cursor = 0;
+	private filled = 0;
+	private lastOnsets: number[] = [];
+
+	private beatTimes: number[] = [];
+	private lastBeat = Number.NEGATIVE_INFINITY;
+	private lastTime?: number;
+	private state: BeatData = {
+		isBeat: false,
+		onsets: [],
+		bpm: 0,
+		phase: 0,
+		pulse: 0,
+	};
+
+	// `edges` are the band boundaries in Hz, one more than there are bands
+	public detect(bands: Float32Array, edges: number[], time: number) {
+		if (bands.length !== this.previous.length) {
+			this.reset(bands.length);
+		}
+
+		const { sensitivity, refractory, pulseDecay, beatCutoff } = this.params;
+		const onsets = this.state.onsets;
+		const beatBands = Math.max(
+			1,
+			edges.slice(1).filter((edge) => edge <= beatCutoff).length,
+		);
+		let isBeat = false;
+
+		for (let b = 0; b < bands.length; b++) {
+			const flux = Math.max(0, bands[b] - this.previous[b]);
+			this.previous[b] = bands[b];
+
+			const { mean, deviation } = this.stats(this.history[b]);
+			const threshold = mean + sensitivity * deviation;
+
+			onsets[b] =
+				this.filled >= historySize / 2 &&
+				flux > minFlux &&
+				flux > threshold &&
+				time - this.lastOnsets[b] > refractory;
+
+			if (onsets[b]) {
+				this.lastOnsets[b] = time;
+				if (b < beatBands) {
+					isBeat = true;
+				}
+			}
+
+			this.history[b][this.cursor] = flux;
+		}
+
+		this.cursor = (this.cursor + 1) % historySize;
+		this.filled = Math.min(this.filled + 1, historySize);
+
+		if (isBeat && time - this.lastBeat < 60 / (maxBpm * 2)) {
+			isBeat = false;
+		}
+		if (isBeat) {
+			this.registerBeat(time);
+		}
+
+		const delta = this.lastTime === undefined ? 0 : time - this.lastTime;
+		this.lastTime = time;
+
+		this.state.isBeat = isBeat;
+		this.state.pulse = isBeat
+			? 1
+			: this.state.pulse * Math.exp(-pulseDecay * delta);
+		this.state.phase =
+			this.state.bpm > 0
+				? (((time - this.lastBeat) * this.state.bpm) / 60) % 1
+				: 0;
+
+		return this.state;
+	}
+
+	private reset(count: number) {
+		this.previous = new Float32Array(count);
+		this.history = Array.from(
+			{ length: count },
+			() => new Float32Array(historySize),
+		);
+		this.lastOnsets = new Array(count).fill(Number.NEGATIVE_INFINITY);
+		this.state.onsets = new Array(count).fill(false);
+		this.cursor = 0;
+		this.filled = 0;
+	}
+
+	private stats(values: Float32Array) {
+		let sum = 0;
+		for (let i = 0; i < values.length; i++) {
+			sum += values[i];
+		}
+		const mean = sum / values.length;
+
+		let variance = 0;
+		for (let i = 0; i < values.length; i++) {
+			variance += (values[i] - mean) ** 2;
+		}
+
+		return { mean, deviation: Math.sqrt(variance / values.length) };
+	}
+
+	private registerBeat(time: number) {
+		this.lastBeat = time;
+		this.beatTimes.push(time);
+		if (this.beatTimes.length > maxBeatTimes) {
+			this.beatTimes.shift();
+		}
+		if (this.beatTimes.length < 4) return;
+
+		const intervals: number[] = [];
+		for (let i = 1; i < this.beatTimes.length; i++) {
+			let interval = this.beatTimes[i] - this.beatTimes[i - 1];
+			if (interval <= 0) continue;
+
+			while (interval > 60 / minBpm) interval /= 2;
+			while (interval < 60 / maxBpm) interval *= 2;
+			intervals.push(interval);
+		}
+		if (intervals.length === 0) return;
+
+		intervals.sort((a, b) => a - b);
+		const bpm = 60 / intervals[Math.floor(intervals.length / 2)];
+
+		this.state.bpm =
+			this.state.bpm > 0 ? this.state.bpm * 0.8 + bpm * 0.2 : bpm;
+	}
+}
@@ -0,0 +1,49 @@
+import type { ChannelInput } from "./analysis";
+
+// Splits a signal into left and right and runs an analyser on each. Connect
+// sources to `input`. Mono sources are spread over both channels rather than
+// ending up on the left only.
+export class ChannelAnalysers {
+	public readonly input: GainNode;
+	public readonly channels: [ChannelInput, ChannelInput];
+	private nodes: AnalyserNode[];
+
+	constructor(
+		context: BaseAudioContext,
+		fftSize: number,
+		smoothingTimeConstant: number,
+	) {
+		// A splitter takes its input as discrete channels, which would leave
+		// mono on the left, so this upmixes to stereo first
+		this.input = context.createGain();
+		this.input.channelCount = 2;
+		this.input.channelCountMode = "explicit";
+		this.input.channelInterpretation = "speakers";
+
+		const splitter = context.createChannelSplitter(2);
+		this.input.connect(splitter);
+
+		this.nodes = [0, 1].map((channel) => {
+			const node = context.createAnalyser();
+			node.fftSize = fftSize;
+			node.smoothingTimeConstant = smoothingTimeConstant;
+			splitter.connect(node, channel);
+			return node;
+		});
+		const [left, right] = this.nodes.map((node) => ({
+			spectrum: new Uint8Array(node.frequencyBinCount),
+			waveform: new Float32Array(node.fftSize),
+		}));
+		this.channels = [left, right];
+	}
+
+	// Fills `channels` with the current data and returns them
+	read() {
+		this.nodes.forEach((node, i) => {
+			node.getByteFrequencyData(this.channels[i].spectrum);
+			node.getFloatTimeDomainData(this.channels[i].waveform);
+		});
+
+		return this.channels;
+	}
+}
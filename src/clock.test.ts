@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { Clock, FixedStep } from "./clock";
+
+describe("FixedStep", () => {
+	test("runs the same steps whatever the frame rate", () => {
+		const count = (fps: number) => {
+			const stepper = new FixedStep(1 / 60);
+			let steps = 0;
+
+			for (let frame = 0; frame < fps; frame++) {
+				stepper.advance(1 / fps, () => steps++);
+			}
+			return steps;
+		};
+
+		expect(count(30)).toBe(60);
+		expect(count(60)).toBe(60);
+		expect(count(120)).toBe(60);
+	});
+
+	test("returns the leftover as an interpolation alpha", () => {
+		const stepper = new FixedStep(1 / 60);
+
+		expect(stepper.advance(1 / 120, () => {})).toBeCloseTo(0.5);
+		expect(stepper.advance(1 / 120, () => {})).toBeCloseTo(0);
+	});
+
+	test("drops the backlog after too many steps", () => {
+		const stepper = new FixedStep(1 / 60, 4);
+		let steps = 0;
+
+		stepper.advance(1, () => steps++);
+		expect(steps).toBe(4);
+
+		stepper.advance(0, () => steps++);
+		expect(steps).toBe(5);
+	});
+});
+
+describe("Clock", () => {
+	test("scales, clamps and pauses frame time", () => {
+		const clock = new Clock();
+
+		expect(clock.tick(0)).toBe(0);
+		expect(clock.tick(16)).toBeCloseTo(0.016);
+
+		clock.params.timeScale = 0.5;
+		expect(clock.tick(32)).toBeCloseTo(0.008);
+		expect(clock.tick(10_032)).toBeCloseTo(0.125);
+
+		clock.params.paused = true;
+		expect(clock.tick(10_048)).toBe(0);
+		expect(clock.realDelta).toBeCloseTo(0.016);
+
+		clock.step();
+		expect(clock.tick(10_064)).toBeCloseTo(1 / 60);
+		expect(clock.tick(10_080)).toBe(0);
+	});
+});
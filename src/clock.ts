@@ -0,0 +1,72 @@
+// Longest frame we simulate, so a tab coming back from the background
+// doesn't fast-forward everything in one go
+const maxDelta = 0.25;
+const singleStep = 1 / 60;
+
+// Measures real frame time and turns it into simulation time, with pause,
+// slow motion and single-stepping
+export class Clock {
+	public params = {
+		paused: false,
+		timeScale: 1,
+	};
+	// Unscaled seconds since the previous tick, still counting while paused
+	public realDelta = 0;
+
+	private last?: number;
+	private pendingSteps = 0;
+
+	// Simulation seconds since the previous tick
+	tick(now = performance.now()): number {
+		this.realDelta =
+			this.last === undefined ? 0 : Math.min((now - this.last) / 1000, maxDelta);
+		this.last = now;
+
+		if (this.params.paused) {
+			if (this.pendingSteps > 0) {
+				this.pendingSteps--;
+				return singleStep;
+			}
+			return 0;
+		}
+
+		return this.realDelta * this.params.timeScale;
+	}
+
+	// Advances one frame on the next tick while paused
+	step() {
+		this.pendingSteps++;
+	}
+}
+
+// Runs a simulation at a fixed step however long the frames are. The
+// leftover time comes back as an alpha for interpolating between the last
+// two states.
+export class FixedStep {
+	private accumulator = 0;
+
+	constructor(
+		public readonly step = 1 / 60,
+		private maxSteps = 8,
+	) {}
+
+	advance(delta: number, update: (step: number) => void): number {
+		this.accumulator += delta;
+
+		let steps = 0;
+		// The epsilon keeps e.g. 1/30 from coming out as one 1/60 step plus
+		// a sliver of rounding error
+		while (this.accumulator >= this.step - 1e-9 && steps < this.maxSteps) {
+			update(this.step);
+			this.accumulator -= this.step;
+			steps++;
+		}
+
+		// Too far behind to catch up, drop the backlog
+		if (steps === this.maxSteps) {
+			this.accumulator = Math.min(this.accumulator, this.step);
+		}
+
+		return Math.max(0, Math.min(1, this.accumulator / this.step));
+	}
+}
@@ -0,0 +1,39 @@
+import { describe, expect, mock, test } from "bun:test";
+import { Emitter } from "./emitter";
+
+interface Events {
+	change: string;
+	beat: number;
+}
+
+describe("Emitter", () => {
+	test("calls listeners for their event until removed", () => {
+		const emitter = new Emitter<Events>();
+		const listener = mock((_value: string) => {});
+		const off = emitter.on("change", listener);
+
+		emitter.emit("change", "line");
+		emitter.emit("beat", 1);
+		off();
+		emitter.emit("change", "wave");
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener).toHaveBeenCalledWith("line");
+	});
+
+	test("keeps going when a listener throws", () => {
+		const emitter = new Emitter<Events>();
+		const listener = mock((_value: number) => {});
+		const error = console.error;
+		console.error = () => {};
+
+		emitter.on("beat", () => {
+			throw new Error("broken");
+		});
+		emitter.on("beat", listener);
+		emitter.emit("beat", 2);
+		console.error = error;
+
+		expect(listener).toHaveBeenCalledWith(2);
+	});
+});
@@ -0,0 +1,37 @@
+type Listener<T> = (value: T) => void;
+
+// A minimal typed event emitter. `Events` maps each event name to the value
+// its listeners receive.
+export class Emitter<Events> {
+	private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+	on<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+		let set = this.listeners.get(event);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(event, set);
+		}
+		set.add(listener);
+
+		return () => this.off(event, listener);
+	}
+
+	off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+		this.listeners.get(event)?.delete(listener);
+	}
+
+	emit<K extends keyof Events>(event: K, value: Events[K]) {
+		for (const listener of this.listeners.get(event) ?? []) {
+			// A throwing listener shouldn't stop the others, or the caller
+			try {
+				(listener as Listener<Events[K]>)(value);
+			} catch (error) {
+				console.error(`Error in "${String(event)}" listener:`, error);
+			}
+		}
+	}
+
+	clear() {
+		this.listeners.clear();
+	}
+}
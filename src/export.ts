@@ -0,0 +1,341 @@
+import { Zip, ZipPassThrough } from "fflate";
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import type { AudioAnalyser } from "./analysis";
+import { ChannelAnalysers } from "./channels";
+import type { AudioData } from "./types";
+
+export interface ExportOptions {
+	fps: number;
+	width: number;
+	height: number;
+	format: "webm" | "png";
+	// Video bitrate in bits per second, WebM only
+	bitrate: number;
+	onProgress?: (progress: number) => void;
+}
+
+export interface OfflineRenderer {
+	canvas: HTMLCanvasElement;
+	// Advances the visualizer by exactly `delta` seconds and draws the frame
+	renderFrame(audioData: AudioData, delta: number): void;
+}
+
+export const resolutions: Record<string, { width: number; height: number }> = {
+	"720p": { width: 1280, height: 720 },
+	"1080p": { width: 1920, height: 1080 },
+	"1440p": { width: 2560, height: 1440 },
+	"4k": { width: 3840, height: 2160 },
+	square: { width: 1080, height: 1080 },
+};
+
+// Matches the live analyser so exports look like the live view
+const fftSize = 2048;
+const smoothingTimeConstant = 0.85;
+// Opus only runs at 48kHz, so everything is decoded at that rate
+const sampleRate = 48000;
+const maxEncodeQueue = 8;
+
+// Renders `file` frame by frame. The audio is played through an
+// OfflineAudioContext that suspends at every frame time, so the analysis,
+// the visualizer step and the capture of each frame never depend on how
+// fast this machine is.
+export async function renderOffline(
+	file: Blob,
+	renderer: OfflineRenderer,
+	analyser: AudioAnalyser,
+	options: ExportOptions,
+): Promise<Blob> {
+	const buffer = await decode(file);
+	const frameCount = Math.floor(buffer.duration * options.fps);
+	const output =
+		options.format === "webm"
+			? await createWebmOutput(buffer, options)
+			: createPngOutput(file);
+
+	const context = new OfflineAudioContext(
+		buffer.numberOfChannels,
+		buffer.length,
+		sampleRate,
+	);
+	const source = context.createBufferSource();
+	const node = context.createAnalyser();
+	node.fftSize = fftSize;
+	node.smoothingTimeConstant = smoothingTimeConstant;
+	const channels = new ChannelAnalysers(context, fftSize, smoothingTimeConstant);
+	source.buffer = buffer;
+	source.connect(node);
+	source.connect(channels.input);
+	node.connect(context.destination);
+
+	const spectrum = new Uint8Array(node.frequencyBinCount);
+	const waveform = new Float32Array(node.fftSize);
+	const delta = 1 / options.fps;
+	let failure: unknown;
+
+	const captureFrame = async (frame: number) => {
+		try {
+			node.getByteFrequencyData(spectrum);
+			node.getFloatTimeDomainData(waveform);
+
+			const audioData = analyser.analyze(
+				spectrum,
+				sampleRate,
+				waveform,
+				frame * delta,
+				channels.read(),
+			);
+			renderer.renderFrame(audioData, delta);
+			await output.addFrame(renderer.canvas, frame);
+
+			options.onProgress?.((frame + 1) / frameCount);
+		} catch (error) {
+			failure ??= error;
+		}
+	};
+
+	for (let frame = 1; frame < frameCount; frame++) {
+		// A suspend is rejected when its time can't be hit, e.g. two frames
+		// falling in one render quantum. That frame would go missing, so the
+		// export fails instead.
+		context.suspend(frame * delta).then(
+			async () => {
+				await captureFrame(frame);
+				context.resume();
+			},
+			(error) => {
+				failure ??= error;
+			},
+		);
+	}
+
+	// Nothing has played at time 0, so the first frame is taken before the
+	// render starts. Some engines reject a suspend at the current time.
+	if (frameCount > 0) await captureFrame(0);
+
+	source.start();
+	await context.startRendering();
+
+	if (failure) {
+		output.abort();
+		throw failure;
+	}
+
+	return output.finish();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+
+	link.href = url;
+	link.download = filename;
+	link.click();
+
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function decode(file: Blob) {
+	const context = new OfflineAudioContext(1, 1, sampleRate);
+
+	return context.decodeAudioData(await file.arrayBuffer());
+}
+
+interface FrameOutput {
+	addFrame(canvas: HTMLCanvasElement, frame: number): Promise<void>;
+	finish(): Promise<Blob>;
+	abort(): void;
+}
+
+async function createWebmOutput(
+	buffer: AudioBuffer,
+	options: ExportOptions,
+): Promise<FrameOutput> {
+	const codec = await pickVideoCodec(options);
+	const muxer = new Muxer({
+		target: new ArrayBufferTarget(),
+		video: {
+			codec: codec.muxer,
+			width: options.width,
+			height: options.height,
+			frameRate: options.fps,
+		},
+		audio: {
+			codec: "A_OPUS",
+			numberOfChannels: buffer.numberOfChannels,
+			sampleRate,
+		},
+	});
+
+	let failure: unknown;
+	const onError = (error: unknown) => {
+		failure ??= error;
+	};
+
+	const videoEncoder = new VideoEncoder({
+		output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+		error: onError,
+	});
+	videoEncoder.configure(codec.config);
+
+	const keyFrameInterval = options.fps * 2;
+
+	return {
+		async addFrame(canvas, frame) {
+			if (failure) throw failure;
+
+			const videoFrame = new VideoFrame(canvas, {
+				timestamp: Math.round((frame * 1e6) / options.fps),
+				duration: Math.round(1e6 / options.fps),
+			});
+			videoEncoder.encode(videoFrame, {
+				keyFrame: frame % keyFrameInterval === 0,
+			});
+			videoFrame.close();
+
+			while (videoEncoder.encodeQueueSize > maxEncodeQueue) {
+				await new Promise((resolve) => setTimeout(resolve, 1));
+			}
+		},
+		async finish() {
+			await videoEncoder.flush();
+			videoEncoder.close();
+			await encodeAudio(buffer, muxer, onError);
+			if (failure) throw failure;
+
+			muxer.finalize();
+			return new Blob([muxer.target.buffer], { type: "video/webm" });
+		},
+		abort() {
+			if (videoEncoder.state !== "closed") {
+				videoEncoder.close();
+			}
+		},
+	};
+}
+
+async function pickVideoCodec(options: ExportOptions) {
+	const candidates = [
+		{ codec: "vp09.00.10.08", muxer: "V_VP9" },
+		{ codec: "vp8", muxer: "V_VP8" },
+	];
+
+	for (const candidate of candidates) {
+		const config: VideoEncoderConfig = {
+			codec: candidate.codec,
+			width: options.width,
+			height: options.height,
+			bitrate: options.bitrate,
+			framerate: options.fps,
+		};
+		const { supported } = await VideoEncoder.isConfigSupported(config);
+
+		if (supported) {
+			return { config, muxer: candidate.muxer };
+		}
+	}
+
+	throw new Error("No supported WebM video codec, try the PNG export");
+}
+
+async function encodeAudio(
+	buffer: AudioBuffer,
+	muxer: Muxer<ArrayBufferTarget>,
+	onError: (error: unknown) => void,
+) {
+	const encoder = new AudioEncoder({
+		output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+		error: onError,
+	});
+	encoder.configure({
+		codec: "opus",
+		sampleRate,
+		numberOfChannels: buffer.numberOfChannels,
+		bitrate: 128_000,
+	});
+
+	const chunkSize = sampleRate;
+	const channels = buffer.numberOfChannels;
+
+	for (let offset = 0; offset < buffer.length; offset += chunkSize) {
+		const length = Math.min(chunkSize, buffer.length - offset);
+		const planar = new Float32Array(length * channels);
+
+		for (let channel = 0; channel < channels; channel++) {
+			planar.set(
+				buffer.getChannelData(channel).subarray(offset, offset + length),
+				channel * length,
+			);
+		}
+
+		// The WebCodecs AudioData, not the analysis frame type
+		const data = new globalThis.AudioData({
+			format: "f32-planar",
+			sampleRate,
+			numberOfFrames: length,
+			numberOfChannels: channels,
+			timestamp: Math.round((offset * 1e6) / sampleRate),
+			data: planar,
+		});
+		encoder.encode(data);
+		data.close();
+	}
+
+	await encoder.flush();
+	encoder.close();
+}
+
+// A zip of numbered PNG frames with the source audio next to them
+function createPngOutput(file: Blob): FrameOutput {
+	const parts: BlobPart[] = [];
+	let failure: unknown;
+	let finished: () => void;
+	const done = new Promise<void>((resolve) => {
+		finished = resolve;
+	});
+
+	const zip = new Zip((error, data, final) => {
+		if (error) {
+			failure ??= error;
+			finished();
+			return;
+		}
+		parts.push(data);
+		if (final) finished();
+	});
+
+	const addEntry = (name: string, data: Uint8Array) => {
+		// PNGs are already compressed, so the zip only stores them
+		const entry = new ZipPassThrough(name);
+		zip.add(entry);
+		entry.push(data, true);
+	};
+
+	return {
+		async addFrame(canvas, frame) {
+			if (failure) throw failure;
+
+			const png = await new Promise<Blob | null>((resolve) =>
+				canvas.toBlob(resolve, "image/png"),
+			);
+			if (!png) {
+				throw new Error(`Could not capture frame ${frame}`);
+			}
+
+			const name = `frames/${String(frame).padStart(6, "0")}.png`;
+			addEntry(name, new Uint8Array(await png.arrayBuffer()));
+		},
+		async finish() {
+			const name = file instanceof File ? file.name : "audio";
+			addEntry(name, new Uint8Array(await file.arrayBuffer()));
+			zip.end();
+
+			await done;
+			if (failure) throw failure;
+
+			return new Blob(parts, { type: "application/zip" });
+		},
+		abort() {
+			zip.terminate();
+		},
+	};
+}
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import { AudioAnalyser, binIndex, rms } from "./analysis";
+import { AudioGate, filterWaveform } from "./gate";
+
+const sampleRate = 44100;
+const binCount = 1024;
+// The gate only reads its settings
+const analyser = new AudioAnalyser();
+
+// A 100Hz and a 5kHz sine at full level, one in the lows and one in the highs
+function twoTones() {
+	const spectrum = new Uint8Array(binCount);
+	const waveform = new Float32Array(binCount * 2);
+
+	for (const freq of [100, 5000]) {
+		spectrum[binIndex(freq, sampleRate, binCount)] = 255;
+	}
+	for (let i = 0; i < waveform.length; i++) {
+		const t = i / sampleRate;
+		waveform[i] =
+			Math.sin(2 * Math.PI * 100 * t) + Math.sin(2 * Math.PI * 5000 * t);
+	}
+
+	return new AudioAnalyser().analyze(spectrum, sampleRate, waveform);
+}
+
+describe("filterWaveform", () => {
+	test("keeps the tone in range and drops the other", () => {
+		const tone = (freq: number) =>
+			Float32Array.from(
+				{ length: 4096 },
+				(_, i) => Math.sin((2 * Math.PI * freq * i) / sampleRate),
+			);
+		const out = new Float32Array(4096);
+
+		const kept = rms(filterWaveform(tone(100), [20, 250], sampleRate, out));
+		expect(kept).toBeCloseTo(Math.SQRT1_2, 1);
+
+		const dropped = rms(filterWaveform(tone(5000), [20, 250], sampleRate, out));
+		expect(dropped).toBeLessThan(0.01);
+	});
+});
+
+describe("AudioGate", () => {
+	test("passes the frame through when ungated", () => {
+		const frame = twoTones();
+
+		const gated = new AudioGate().apply(frame, "all", 1 / 60, analyser);
+
+		expect(gated).toBe(frame);
+	});
+
+	test("cuts the spectrum and bands down to the gate", () => {
+		const frame = twoTones();
+		const low = binIndex(100, sampleRate, binCount);
+		const high = binIndex(5000, sampleRate, binCount);
+
+		const lows = new AudioGate().apply(frame, "low", 1 / 60, analyser);
+		expect(lows.frequencyData[low]).toBe(255);
+		expect(lows.frequencyData[high]).toBe(0);
+		expect(lows.stereo.left.frequencyData[high]).toBe(0);
+		expect(lows.bands.at(-1)).toBe(0);
+		expect(lows.mid).toBe(0);
+		expect(lows.high).toBe(0);
+
+		const highs = new AudioGate().apply(frame, "high", 1 / 60, analyser);
+		expect(highs.frequencyData[low]).toBe(0);
+		expect(highs.frequencyData[high]).toBe(255);
+		expect(highs.bands[0]).toBe(0);
+		expect(highs.centroid).toBeGreaterThan(2000);
+	});
+
+	test("measures the level from the filtered waveform", () => {
+		const frame = twoTones();
+		const lows = new AudioGate().apply(frame, "low", 1 / 60, analyser);
+
+		// One of the two tones is left
+		expect(frame.rms).toBeCloseTo(1, 1);
+		expect(lows.rms).toBeCloseTo(Math.SQRT1_2, 1);
+		expect(lows.peak).toBeLessThan(frame.peak);
+		expect(lows.stereo.left.rms).toBeCloseTo(lows.rms);
+		expect(lows.stereo.correlation).toBeGreaterThan(0);
+	});
+
+	test("gates each channel on its own", () => {
+		const tone = (freq: number) => {
+			const spectrum = new Uint8Array(binCount);
+			spectrum[binIndex(freq, sampleRate, binCount)] = 255;
+			const waveform = Float32Array.from(
+				{ length: binCount * 2 },
+				(_, i) => Math.sin((2 * Math.PI * freq * i) / sampleRate),
+			);
+			return { spectrum, waveform };
+		};
+		const bass = tone(100);
+		const frame = new AudioAnalyser().analyze(
+			bass.spectrum,
+			sampleRate,
+			bass.waveform,
+			0,
+			[bass, tone(5000)],
+		);
+
+		const { left, right } = new AudioGate().apply(
+			frame,
+			"low",
+			1 / 60,
+			analyser,
+		).stereo;
+		expect(left.rms).toBeCloseTo(Math.SQRT1_2, 1);
+		expect(left.bands[0]).toBe(frame.stereo.left.bands[0]);
+		expect(right.rms).toBeLessThan(0.01);
+		expect(right.frequencyData.every((value) => value === 0)).toBe(true);
+		expect(right.high).toBe(0);
+	});
+
+	test("only beats on onsets in its bands", () => {
+		const frame = twoTones();
+		const top = frame.bands.length - 1;
+		const onTop = {
+			...frame,
+			beat: {
+				...frame.beat,
+				isBeat: true,
+				onsets: Array.from(frame.bands, (_, band) => band === top),
+				pulse: 1,
+			},
+		};
+		const lows = new AudioGate();
+		const highs = new AudioGate();
+
+		const missed = lows.apply(onTop, "low", 1 / 60, analyser).beat;
+		expect(missed.isBeat).toBe(false);
+		expect(missed.pulse).toBe(0);
+
+		const beat = highs.apply(onTop, "high", 1 / 60, analyser).beat;
+		expect(beat.isBeat).toBe(true);
+		expect(beat.pulse).toBe(1);
+
+		const after = highs.apply(frame, "high", 1 / 60, analyser).beat;
+		expect(after.isBeat).toBe(false);
+		expect(after.pulse).toBeLessThan(1);
+		expect(after.pulse).toBeGreaterThan(0);
+	});
+
+	test("follows the analyser's settings", () => {
+		const frame = twoTones();
+		const onset = {
+			...frame,
+			beat: { ...frame.beat, onsets: Array.from(frame.bands, () => true) },
+		};
+		const quick = new AudioAnalyser();
+		quick.beatDetector.params.pulseDecay = 60;
+		const gate = new AudioGate();
+
+		gate.apply(onset, "high", 1 / 60, quick);
+		const beat = gate.apply(frame, "high", 1 / 60, quick).beat;
+
+		expect(beat.pulse).toBeCloseTo(Math.exp(-1));
+	});
+});
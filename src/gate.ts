@@ -0,0 +1,304 @@
+import {
+	type AudioAnalyser,
+	balance,
+	binWidth,
+	correlation,
+	logBandEdges,
+	minBandFrequency,
+	peak,
+	rms,
+	smooth,
+	spectralCentroid,
+	spectralFlux,
+	spectralRolloff,
+	stereoWidth,
+} from "./analysis";
+import { frequencyRanges } from "./constants";
+import type { AudioData, BeatData, ChannelData, StereoData } from "./types";
+
+// The range in Hz each gate lets through
+export const gateRanges: Record<string, [number, number]> = {
+	low: [frequencyRanges.lolo, frequencyRanges.lohi],
+	mid: [frequencyRanges.midlo, frequencyRanges.midhi],
+	high: [frequencyRanges.hilo, frequencyRanges.hihi],
+};
+
+// Normalised biquad coefficients: b0, b1, b2, a1, a2
+type Biquad = [number, number, number, number, number];
+
+// Butterworth low or high pass at `frequency`
+export function biquad(
+	type: "lowpass" | "highpass",
+	frequency: number,
+	sampleRate: number,
+): Biquad {
+	const w0 = (2 * Math.PI * frequency) / sampleRate;
+	const cos = Math.cos(w0);
+	const alpha = Math.sin(w0) * Math.SQRT1_2;
+	const a0 = 1 + alpha;
+	const b1 = type === "lowpass" ? 1 - cos : -(1 + cos);
+	const b0 = Math.abs(b1) / 2;
+
+	return [b0 / a0, b1 / a0, b0 / a0, (-2 * cos) / a0, (1 - alpha) / a0];
+}
+
+// Filters `data` in place. It starts as if the first sample had always been
+// there, so a buffer cut out of a longer signal doesn't begin with a step.
+function runBiquad(data: Float32Array, [b0, b1, b2, a1, a2]: Biquad) {
+	const first = data[0] ?? 0;
+	const settled = (first * (b0 + b1 + b2)) / (1 + a1 + a2);
+	let x1 = first;
+	let x2 = first;
+	let y1 = settled;
+	let y2 = settled;
+
+	for (let i = 0; i < data.length; i++) {
+		const x = data[i];
+		const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+		x2 = x1;
+		x1 = x;
+		y2 = y1;
+		y1 = y;
+		data[i] = y;
+	}
+}
+
+// Copies `waveform` into `out`, band passed to `range`. Each edge is two
+// filters deep, as one lets too much through to tell the gates apart.
+export function filterWaveform(
+	waveform: Float32Array,
+	[low, high]: [number, number],
+	sampleRate: number,
+	out: Float32Array,
+) {
+	out.set(waveform);
+
+	const filters: Biquad[] = [];
+	if (low > minBandFrequency) {
+		filters.push(biquad("highpass", low, sampleRate));
+	}
+	if (high < sampleRate / 2) {
+		filters.push(biquad("lowpass", high, sampleRate));
+	}
+	for (const filter of filters) {
+		runBiquad(out, filter);
+		runBiquad(out, filter);
+	}
+
+	return out;
+}
+
+// Copies `spectrum` into `out` with the bins outside `range` zeroed
+export function gateSpectrum(
+	spectrum: Uint8Array,
+	[low, high]: [number, number],
+	sampleRate: number,
+	out: Uint8Array,
+) {
+	const width = binWidth(sampleRate, spectrum.length);
+
+	for (let i = 0; i < spectrum.length; i++) {
+		const frequency = i * width;
+		out[i] = frequency >= low && frequency < high ? spectrum[i] : 0;
+	}
+
+	return out;
+}
+
+// Whether each of the analysis bands has its centre inside `range`
+export function bandsInRange(
+	count: number,
+	[low, high]: [number, number],
+	sampleRate: number,
+) {
+	const edges = logBandEdges(count, minBandFrequency, sampleRate / 2);
+
+	return Array.from({ length: count }, (_, band) => {
+		const centre = Math.sqrt(edges[band] * edges[band + 1]);
+		return centre >= low && centre < high;
+	});
+}
+
+function resize<T extends Uint8Array | Float32Array>(array: T, length: number) {
+	if (array.length === length) return array;
+
+	return new (array.constructor as new (length: number) => T)(length);
+}
+
+// Which bands a gate lets through, and the range it was worked out for
+interface GateBands {
+	gate: string;
+	range: [number, number];
+	inRange: boolean[];
+}
+
+// Gates one signal, the mix or a channel. The flux and beat pulse carry
+// over between frames.
+class SignalGate {
+	private spectrum = new Uint8Array(0);
+	private previousSpectrum = new Float32Array(0);
+	private bands = new Float32Array(0);
+	private waveform = new Float32Array(0);
+	private beat: BeatData = {
+		isBeat: false,
+		onsets: [],
+		bpm: 0,
+		phase: 0,
+		pulse: 0,
+	};
+
+	apply(
+		signal: ChannelData,
+		{ gate, range, inRange }: GateBands,
+		sampleRate: number,
+		delta: number,
+		pulseDecay: number,
+	): ChannelData {
+		const width = binWidth(sampleRate, signal.frequencyData.length);
+
+		this.spectrum = resize(this.spectrum, signal.frequencyData.length);
+		if (this.previousSpectrum.length !== this.spectrum.length) {
+			this.previousSpectrum = new Float32Array(this.spectrum.length);
+		}
+		const spectrum = gateSpectrum(
+			signal.frequencyData,
+			range,
+			sampleRate,
+			this.spectrum,
+		);
+
+		this.waveform = resize(this.waveform, signal.waveform.length);
+		const waveform = filterWaveform(
+			signal.waveform,
+			range,
+			sampleRate,
+			this.waveform,
+		);
+
+		this.bands = resize(this.bands, signal.bands.length);
+		for (let band = 0; band < this.bands.length; band++) {
+			this.bands[band] = inRange[band] ? signal.bands[band] : 0;
+		}
+
+		return {
+			low: gate === "low" ? signal.low : 0,
+			mid: gate === "mid" ? signal.mid : 0,
+			high: gate === "high" ? signal.high : 0,
+			bands: this.bands,
+			rms: rms(waveform),
+			peak: peak(waveform),
+			centroid: spectralCentroid(spectrum, width),
+			flux: spectralFlux(spectrum, this.previousSpectrum),
+			rolloff: spectralRolloff(spectrum, width),
+			frequencyData: spectrum,
+			waveform,
+			beat: this.updateBeat(signal.beat, inRange, delta, pulseDecay),
+		};
+	}
+
+	// Beats are onsets in the gate's bands. The tempo stays the whole
+	// signal's.
+	private updateBeat(
+		beat: BeatData,
+		inRange: boolean[],
+		delta: number,
+		pulseDecay: number,
+	) {
+		const state = this.beat;
+
+		state.onsets = beat.onsets.map(
+			(onset, band) => onset && Boolean(inRange[band]),
+		);
+		state.isBeat = state.onsets.some(Boolean);
+		state.bpm = beat.bpm;
+		state.phase = beat.phase;
+		state.pulse = state.isBeat
+			? 1
+			: state.pulse * Math.exp(-pulseDecay * delta);
+
+		return state;
+	}
+}
+
+// Narrows analysis frames to the range of a gate, so a layer only reacts to
+// that part of the signal. The spectra, bands and waveforms of the mix and
+// of each channel are cut down to the range, and everything measured from
+// them is worked out again from what's left. Some of that carries over
+// between frames, so each layer needs its own.
+export class AudioGate {
+	private bands?: GateBands & { key: string };
+	private mix = new SignalGate();
+	private channels = [new SignalGate(), new SignalGate()];
+	private stereo = { correlation: 0, width: 0, balance: 0 };
+
+	// `gate` is a key of `gateRanges`, anything else passes the frame through.
+	// `analyser` made the frame, its smoothing and pulse decay carry over.
+	apply(
+		audioData: AudioData,
+		gate: string,
+		delta: number,
+		analyser: AudioAnalyser,
+	): AudioData {
+		const range = gateRanges[gate];
+		if (!range) return audioData;
+
+		const { sampleRate, stereo } = audioData;
+		const { pulseDecay } = analyser.beatDetector.params;
+		const bands = this.gateBands(gate, range, audioData);
+		const gateChannel = (signal: ChannelData, i: number) =>
+			this.channels[i].apply(signal, bands, sampleRate, delta, pulseDecay);
+
+		const left = gateChannel(stereo.left, 0);
+		// Mono input is the same channel twice
+		const right =
+			stereo.right === stereo.left ? left : gateChannel(stereo.right, 1);
+
+		return {
+			...audioData,
+			...this.mix.apply(audioData, bands, sampleRate, delta, pulseDecay),
+			stereo: this.updateStereo(left, right, analyser.params.smoothing),
+		};
+	}
+
+	private gateBands(
+		gate: string,
+		range: [number, number],
+		audioData: AudioData,
+	) {
+		const count = audioData.bands.length;
+		const key = `${gate}:${count}:${audioData.sampleRate}`;
+		if (this.bands?.key !== key) {
+			const inRange = bandsInRange(count, range, audioData.sampleRate);
+			this.bands = { key, gate, range, inRange };
+		}
+
+		return this.bands;
+	}
+
+	private updateStereo(
+		left: ChannelData,
+		right: ChannelData,
+		smoothing: number,
+	): StereoData {
+		const previous = this.stereo;
+		this.stereo = {
+			correlation: smooth(
+				previous.correlation,
+				correlation(left.waveform, right.waveform),
+				smoothing,
+			),
+			width: smooth(
+				previous.width,
+				stereoWidth(left.waveform, right.waveform),
+				smoothing,
+			),
+			balance: smooth(
+				previous.balance,
+				balance(left.rms, right.rms),
+				smoothing,
+			),
+		};
+
+		return { left, right, ...this.stereo };
+	}
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import alea from "alea";
+import {
+	chordFrequencies,
+	fillNoise,
+	noteFrequency,
+	parsePattern,
+} from "./generator";
+
+describe("notes", () => {
+	test("tunes to A440", () => {
+		expect(noteFrequency(69)).toBe(440);
+		expect(noteFrequency(57)).toBe(220);
+	});
+
+	test("builds chords from the root", () => {
+		const [root, third, fifth] = chordFrequencies(57, "major");
+
+		expect(root).toBe(220);
+		expect(third).toBeCloseTo(277.18, 2);
+		expect(fifth).toBeCloseTo(329.63, 2);
+		expect(chordFrequencies(57, "unknown")).toHaveLength(3);
+	});
+});
+
+describe("parsePattern", () => {
+	test("hits on x, rests on anything else", () => {
+		expect(parsePattern("x.X-")).toEqual([true, false, true, false]);
+	});
+});
+
+describe("fillNoise", () => {
+	// Average jump between neighbouring samples, lower for darker noise
+	function roughness(samples: Float32Array) {
+		let sum = 0;
+		for (let i = 1; i < samples.length; i++) {
+			sum += Math.abs(samples[i] - samples[i - 1]);
+		}
+		return sum / (samples.length - 1);
+	}
+
+	test("is the same for the same seed", () => {
+		const a = fillNoise(new Float32Array(64), "white", alea("seed"));
+		const b = fillNoise(new Float32Array(64), "white", alea("seed"));
+
+		expect(a).toEqual(b);
+	});
+
+	test("pink noise stays in range and is darker than white", () => {
+		const white = fillNoise(new Float32Array(44100), "white", alea("seed"));
+		const pink = fillNoise(new Float32Array(44100), "pink", alea("seed"));
+
+		expect(Math.max(...pink.map(Math.abs))).toBeLessThanOrEqual(1);
+		expect(roughness(pink)).toBeLessThan(roughness(white) / 2);
+	});
+});
@@ -0,0 +1,455 @@
+import alea from "alea";
+import type { GUI } from "lil-gui";
+import type { InputSource } from "./input";
+
+export interface GeneratorParams {
+	// Also plays the signal through the speakers, 0 keeps it silent
+	monitor: number;
+	sweep: {
+		enabled: boolean;
+		waveform: OscillatorType;
+		// Hz
+		from: number;
+		to: number;
+		// Seconds per sweep
+		duration: number;
+		log: boolean;
+		level: number;
+	};
+	noise: {
+		enabled: boolean;
+		color: string;
+		level: number;
+	};
+	// Patterns are 16th-note steps, "x" for a hit and anything else to rest
+	drums: {
+		enabled: boolean;
+		bpm: number;
+		kick: string;
+		snare: string;
+		hat: string;
+		level: number;
+	};
+	chord: {
+		enabled: boolean;
+		// MIDI note number
+		root: number;
+		type: string;
+		waveform: OscillatorType;
+		level: number;
+	};
+}
+
+export function createGeneratorParams(): GeneratorParams {
+	return {
+		monitor: 0,
+		sweep: {
+			enabled: false,
+			waveform: "sine",
+			from: 20,
+			to: 20000,
+			duration: 8,
+			log: true,
+			level: 0.5,
+		},
+		noise: { enabled: false, color: "pink", level: 0.3 },
+		drums: {
+			enabled: true,
+			bpm: 120,
+			kick: "x...x...x...x...",
+			snare: "....x.......x...",
+			hat: "x.x.x.x.x.x.x.x.",
+			level: 0.8,
+		},
+		chord: {
+			enabled: false,
+			root: 57,
+			type: "minor",
+			waveform: "sawtooth",
+			level: 0.3,
+		},
+	};
+}
+
+const waveforms: OscillatorType[] = ["sine", "triangle", "sawtooth", "square"];
+
+// Semitones above the root
+export const chordTypes: Record<string, number[]> = {
+	major: [0, 4, 7],
+	minor: [0, 3, 7],
+	maj7: [0, 4, 7, 11],
+	min7: [0, 3, 7, 10],
+	dom7: [0, 4, 7, 10],
+	sus4: [0, 5, 7],
+	dim: [0, 3, 6],
+	fifth: [0, 7],
+};
+
+const maxChordNotes = Math.max(
+	...Object.values(chordTypes).map((t) => t.length),
+);
+
+export function noteFrequency(note: number) {
+	return 440 * 2 ** ((note - 69) / 12);
+}
+
+export function chordFrequencies(root: number, type: string) {
+	const intervals = chordTypes[type] ?? chordTypes.major;
+	return intervals.map((interval) => noteFrequency(root + interval));
+}
+
+export function parsePattern(pattern: string): boolean[] {
+	return [...pattern].map((step) => step === "x" || step === "X");
+}
+
+// White noise, or pink (-3dB per octave) using Paul Kellet's filter
+export function fillNoise(
+	samples: Float32Array,
+	color: string,
+	random: () => number,
+) {
+	let b0 = 0;
+	let b1 = 0;
+	let b2 = 0;
+	let b3 = 0;
+	let b4 = 0;
+	let b5 = 0;
+	let b6 = 0;
+
+	for (let i = 0; i < samples.length; i++) {
+		const white = random() * 2 - 1;
+		if (color !== "pink") {
+			samples[i] = white;
+			continue;
+		}
+
+		b0 = 0.99886 * b0 + white * 0.0555179;
+		b1 = 0.99332 * b1 + white * 0.0750759;
+		b2 = 0.969 * b2 + white * 0.153852;
+		b3 = 0.8665 * b3 + white * 0.3104856;
+		b4 = 0.55 * b4 + white * 0.5329522;
+		b5 = -0.7616 * b5 - white * 0.016898;
+		// Scaled back to roughly -1..1
+		samples[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+		b6 = white * 0.115926;
+	}
+
+	return samples;
+}
+
+// How far ahead hits and sweeps are put on the audio clock, and how often
+// that's topped up. The timer is jittery, the audio clock isn't.
+const lookahead = 0.1;
+const tickInterval = 25;
+// Time constant for level and pitch changes, short enough to feel instant
+// without clicking
+const glide = 0.02;
+
+// Sweeps, noise, a drum machine and chords for tuning visualizers against
+// something repeatable. Reads its params on every tick, so GUI changes
+// apply while it plays.
+export class SignalGenerator implements InputSource {
+	readonly audible = false;
+	readonly label = "Signal generator";
+	readonly node: GainNode;
+
+	private monitor: GainNode;
+	private sweep: OscillatorNode;
+	private sweepGain: GainNode;
+	private noise?: AudioBufferSourceNode;
+	private noiseColor = "";
+	private noiseGain: GainNode;
+	private noiseBuffers = new Map<string, AudioBuffer>();
+	// White noise for the snare and hats
+	private hitNoise: AudioBuffer;
+	private chord: OscillatorNode[] = [];
+	private chordGains: GainNode[] = [];
+	private chordGain: GainNode;
+	private drums: GainNode;
+
+	private timer: ReturnType<typeof setInterval>;
+	private step = 0;
+	private nextStep: number;
+	private nextSweep: number;
+	// The settings the scheduled sweeps were made with
+	private sweepSettings = "";
+
+	constructor(
+		private audioContext: AudioContext,
+		private params: GeneratorParams,
+	) {
+		const now = audioContext.currentTime;
+
+		this.node = audioContext.createGain();
+		this.monitor = audioContext.createGain();
+		this.monitor.gain.value = params.monitor;
+		this.node.connect(this.monitor).connect(audioContext.destination);
+
+		this.sweepGain = this.bus();
+		this.sweep = audioContext.createOscillator();
+		this.sweep.connect(this.sweepGain);
+		this.sweep.start();
+
+		this.noiseGain = this.bus();
+		this.chordGain = this.bus();
+		for (let i = 0; i < maxChordNotes; i++) {
+			const oscillator = audioContext.createOscillator();
+			const gain = audioContext.createGain();
+			gain.gain.value = 0;
+			oscillator.connect(gain).connect(this.chordGain);
+			oscillator.start();
+			this.chord.push(oscillator);
+			this.chordGains.push(gain);
+		}
+
+		this.drums = this.bus();
+		this.hitNoise = this.noiseBuffer("white");
+
+		this.nextStep = now;
+		this.nextSweep = now;
+		this.tick();
+		this.timer = setInterval(() => this.tick(), tickInterval);
+	}
+
+	dispose() {
+		clearInterval(this.timer);
+		this.sweep.stop();
+		this.noise?.stop();
+		for (const oscillator of this.chord) {
+			oscillator.stop();
+		}
+		this.node.disconnect();
+		this.monitor.disconnect();
+	}
+
+	private tick() {
+		const { params, audioContext } = this;
+		const now = audioContext.currentTime;
+		const until = now + lookahead;
+		const { sweep, noise, drums, chord } = params;
+
+		this.monitor.gain.setTargetAtTime(params.monitor, now, glide);
+		this.setLevel(this.sweepGain, sweep.enabled, sweep.level, now);
+		this.setLevel(this.noiseGain, noise.enabled, noise.level, now);
+		this.setLevel(this.drums, drums.enabled, drums.level, now);
+		this.setLevel(this.chordGain, chord.enabled, chord.level, now);
+
+		this.scheduleSweep(now, until);
+		this.updateNoise();
+		this.updateChord(now);
+		this.scheduleDrums(now, until);
+	}
+
+	private scheduleSweep(now: number, until: number) {
+		const { waveform, from, to, duration, log } = this.params.sweep;
+		const frequency = this.sweep.frequency;
+		this.sweep.type = waveform;
+
+		const rampTo = (end: number) => {
+			if (log) {
+				frequency.exponentialRampToValueAtTime(Math.max(to, 1), end);
+			} else {
+				frequency.linearRampToValueAtTime(to, end);
+			}
+		};
+
+		// A changed sweep drops what was scheduled with the old settings and
+		// heads for the new end from wherever the frequency has got to
+		const settings = `${from}:${to}:${duration}:${log}`;
+		if (this.sweepSettings && settings !== this.sweepSettings) {
+			const current = frequency.value;
+			frequency.cancelScheduledValues(now);
+			frequency.setValueAtTime(Math.max(current, 1), now);
+			this.nextSweep = now + Math.max(duration, 0.1);
+			rampTo(this.nextSweep);
+		}
+		this.sweepSettings = settings;
+
+		// Picks up again from now after being held up, e.g. while suspended
+		this.nextSweep = Math.max(this.nextSweep, now);
+		while (this.nextSweep < until) {
+			const start = this.nextSweep;
+			const end = start + Math.max(duration, 0.1);
+
+			frequency.setValueAtTime(Math.max(from, 1), start);
+			rampTo(end);
+			this.nextSweep = end;
+		}
+	}
+
+	private updateNoise() {
+		const { color } = this.params.noise;
+		if (color === this.noiseColor) return;
+
+		this.noise?.stop();
+		this.noise = this.audioContext.createBufferSource();
+		this.noise.buffer = this.noiseBuffer(color);
+		this.noise.loop = true;
+		this.noise.connect(this.noiseGain);
+		this.noise.start();
+		this.noiseColor = color;
+	}
+
+	private updateChord(now: number) {
+		const { root, type, waveform } = this.params.chord;
+		const frequencies = chordFrequencies(root, type);
+
+		this.chord.forEach((oscillator, i) => {
+			const frequency = frequencies[i];
+			oscillator.type = waveform;
+			if (frequency) {
+				oscillator.frequency.setTargetAtTime(frequency, now, glide);
+			}
+			// Split evenly so bigger chords aren't louder
+			const gain = frequency ? 1 / frequencies.length : 0;
+			this.chordGains[i].gain.setTargetAtTime(gain, now, glide);
+		});
+	}
+
+	private scheduleDrums(now: number, until: number) {
+		const { bpm, kick, snare, hat } = this.params.drums;
+		const stepLength = 60 / Math.max(bpm, 1) / 4;
+		const patterns = [kick, snare, hat].map(parsePattern);
+		const voices = [
+			(time: number) => this.kick(time),
+			(time: number) => this.snare(time),
+			(time: number) => this.hat(time),
+		];
+
+		// Don't play a backlog of steps after being held up
+		if (this.nextStep < now - stepLength) {
+			this.nextStep = now;
+		}
+		while (this.nextStep < until) {
+			patterns.forEach((pattern, i) => {
+				if (pattern.length && pattern[this.step % pattern.length]) {
+					voices[i](this.nextStep);
+				}
+			});
+			this.step = (this.step + 1) % 64;
+			this.nextStep += stepLength;
+		}
+	}
+
+	private kick(time: number) {
+		const { audioContext } = this;
+		const oscillator = audioContext.createOscillator();
+		const gain = audioContext.createGain();
+
+		oscillator.frequency.setValueAtTime(150, time);
+		oscillator.frequency.exponentialRampToValueAtTime(45, time + 0.15);
+		gain.gain.setValueAtTime(1, time);
+		gain.gain.exponentialRampToValueAtTime(0.001, time + 0.4);
+
+		oscillator.connect(gain).connect(this.drums);
+		oscillator.start(time);
+		oscillator.stop(time + 0.4);
+	}
+
+	private snare(time: number) {
+		const { audioContext } = this;
+		this.noiseHit(time, 1000, 0.7, 0.2);
+
+		const tone = audioContext.createOscillator();
+		const gain = audioContext.createGain();
+		tone.type = "triangle";
+		tone.frequency.value = 180;
+		gain.gain.setValueAtTime(0.5, time);
+		gain.gain.exponentialRampToValueAtTime(0.001, time + 0.1);
+
+		tone.connect(gain).connect(this.drums);
+		tone.start(time);
+		tone.stop(time + 0.1);
+	}
+
+	private hat(time: number) {
+		this.noiseHit(time, 7000, 0.3, 0.05);
+	}
+
+	private noiseHit(
+		time: number,
+		cutoff: number,
+		level: number,
+		length: number,
+	) {
+		const { audioContext } = this;
+		const source = audioContext.createBufferSource();
+		const filter = audioContext.createBiquadFilter();
+		const gain = audioContext.createGain();
+
+		source.buffer = this.hitNoise;
+		filter.type = "highpass";
+		filter.frequency.value = cutoff;
+		gain.gain.setValueAtTime(level, time);
+		gain.gain.exponentialRampToValueAtTime(0.001, time + length);
+
+		source.connect(filter).connect(gain).connect(this.drums);
+		source.start(time);
+		source.stop(time + length);
+	}
+
+	private setLevel(
+		gain: GainNode,
+		enabled: boolean,
+		level: number,
+		now: number,
+	) {
+		gain.gain.setTargetAtTime(enabled ? level : 0, now, glide);
+	}
+
+	private bus() {
+		const gain = this.audioContext.createGain();
+		gain.gain.value = 0;
+		gain.connect(this.node);
+		return gain;
+	}
+
+	// Two seconds of noise from a fixed seed, the same on every run
+	private noiseBuffer(color: string) {
+		let buffer = this.noiseBuffers.get(color);
+		if (!buffer) {
+			const { sampleRate } = this.audioContext;
+			buffer = this.audioContext.createBuffer(1, sampleRate * 2, sampleRate);
+			fillNoise(buffer.getChannelData(0), color, alea(`vslzr-${color}`));
+			this.noiseBuffers.set(color, buffer);
+		}
+		return buffer;
+	}
+}
+
+export function addGeneratorFolder(gui: GUI, params: GeneratorParams) {
+	const folder = gui.addFolder("Signal generator");
+	folder.add(params, "monitor", 0, 1).name("Monitor volume");
+
+	const sweep = folder.addFolder("Sweep");
+	sweep.add(params.sweep, "enabled").name("Enabled");
+	sweep.add(params.sweep, "waveform", waveforms).name("Waveform");
+	sweep.add(params.sweep, "from", 20, 20000).name("From (Hz)");
+	sweep.add(params.sweep, "to", 20, 20000).name("To (Hz)");
+	sweep.add(params.sweep, "duration", 0.5, 30).name("Duration (s)");
+	sweep.add(params.sweep, "log").name("Logarithmic");
+	sweep.add(params.sweep, "level", 0, 1).name("Level");
+
+	const noise = folder.addFolder("Noise");
+	noise.add(params.noise, "enabled").name("Enabled");
+	noise.add(params.noise, "color", ["white", "pink"]).name("Color");
+	noise.add(params.noise, "level", 0, 1).name("Level");
+
+	const drums = folder.addFolder("Drums");
+	drums.add(params.drums, "enabled").name("Enabled");
+	drums.add(params.drums, "bpm", 40, 200, 1).name("BPM");
+	drums.add(params.drums, "kick").name("Kick");
+	drums.add(params.drums, "snare").name("Snare");
+	drums.add(params.drums, "hat").name("Hi-hat");
+	drums.add(params.drums, "level", 0, 1).name("Level");
+
+	const chord = folder.addFolder("Chord");
+	chord.add(params.chord, "enabled").name("Enabled");
+	chord.add(params.chord, "root", 24, 96, 1).name("Root (MIDI note)");
+	chord.add(params.chord, "type", Object.keys(chordTypes)).name("Type");
+	chord.add(params.chord, "waveform", waveforms).name("Waveform");
+	chord.add(params.chord, "level", 0, 1).name("Level");
+
+	folder.close();
+	return folder;
+}
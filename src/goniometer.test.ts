@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { goniometerPoint } from "./goniometer";
+
+describe("goniometerPoint", () => {
+	const point = new THREE.Vector2();
+
+	test("stands mono up vertically in the mid/side view", () => {
+		goniometerPoint(0.5, 0.5, "mid/side", point);
+
+		expect(point.x).toBeCloseTo(0);
+		expect(point.y).toBeCloseTo(Math.SQRT1_2);
+	});
+
+	test("lays inverted channels flat in the mid/side view", () => {
+		goniometerPoint(0.5, -0.5, "mid/side", point);
+
+		expect(point.x).toBeCloseTo(-Math.SQRT1_2);
+		expect(point.y).toBeCloseTo(0);
+	});
+
+	test("plots left against right in the x/y view", () => {
+		goniometerPoint(0.25, -0.75, "x/y", point);
+
+		expect(point.toArray()).toEqual([0.25, -0.75]);
+	});
+});
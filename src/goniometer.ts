@@ -0,0 +1,173 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import { sliders } from "./sliders";
+import { ThickLine } from "./thick-line";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+// Share of the shorter side the plot spans
+const plotSize = 0.75;
+
+// Position of one stereo sample on the plot, each axis roughly -1..1. The
+// mid/side view stands mono up vertically, the x/y view is a plain
+// Lissajous figure with mono on the diagonal.
+export function goniometerPoint(
+	left: number,
+	right: number,
+	view: string,
+	out: THREE.Vector2,
+) {
+	if (view === "x/y") {
+		return out.set(left, right);
+	}
+
+	return out
+		.set(right - left, left + right)
+		.multiplyScalar(Math.SQRT1_2);
+}
+
+// A goniometer tracing the left channel against the right, with a phase
+// correlation meter underneath
+export class GoniometerVslzr implements Vslzr {
+	public params = {
+		// Latest samples traced every frame
+		samples: 1024,
+		gain: 1,
+		view: "mid/side",
+		lineWidth: 1.5,
+		glow: 0.5,
+		meter: true,
+		colorRange: { min: "#00C8FF", max: "#FFFFFF" },
+	};
+	public ranges: ParamRanges = {};
+
+	private trace!: ThickLine;
+	// The meter's full range, and the bar out to the current correlation
+	private track: ThickLine;
+	private needle: ThickLine;
+	private folder: GUI;
+	private bounds: Bounds;
+	private point = new THREE.Vector2();
+	private minColor = new THREE.Color();
+	private maxColor = new THREE.Color();
+	private color = new THREE.Color();
+
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+		context: VslzrContext,
+	) {
+		this.bounds = context.bounds;
+
+		this.track = new ThickLine(2);
+		this.track.opacity = 0.25;
+		this.needle = new ThickLine(2);
+		this.scene.add(this.track, this.needle);
+
+		const folder = gui.addFolder("Goniometer");
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		slider("samples", 64, 2048, 1).name("Samples");
+		slider("gain", 0.1, 10).name("Gain");
+		folder.add(this.params, "view", ["mid/side", "x/y"]).name("View");
+		slider("lineWidth", 0.5, 10).name("Line width");
+		slider("glow", 0, 2).name("Glow");
+		folder.add(this.params, "meter").name("Correlation meter");
+		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
+		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
+
+		this.build();
+	}
+
+	update(audioData: AudioData) {
+		// Picked up here rather than in the GUI, as modulation changes it too
+		if (this.trace.pointCount !== this.params.samples) {
+			this.rebuild();
+		}
+
+		const { params, point, color, trace } = this;
+		const { left, right, correlation } = audioData.stereo;
+		const size = Math.min(this.bounds.width, this.bounds.height) * plotSize;
+		const count = trace.pointCount;
+		// The newest samples sit at the end of the buffers
+		const offset = Math.max(left.waveform.length - count, 0);
+
+		this.minColor.set(params.colorRange.min);
+		this.maxColor.set(params.colorRange.max);
+		trace.glow = params.glow;
+
+		for (let i = 0; i < count; i++) {
+			const index = Math.min(offset + i, left.waveform.length - 1);
+			goniometerPoint(
+				left.waveform[index] ?? 0,
+				right.waveform[index] ?? 0,
+				params.view,
+				point,
+			);
+			point.multiplyScalar(params.gain).clampLength(0, 1);
+
+			trace.points[i * 3] = point.x * (size / 2);
+			trace.points[i * 3 + 1] = point.y * (size / 2);
+			trace.widths[i] = params.lineWidth;
+			// Brighter the further out the sample lands
+			color
+				.lerpColors(this.minColor, this.maxColor, point.length())
+				.toArray(trace.colors, i * 3);
+		}
+		trace.update();
+
+		this.updateMeter(correlation, size);
+	}
+
+	dispose() {
+		this.teardown();
+		for (const line of [this.track, this.needle]) {
+			this.scene.remove(line);
+			line.dispose();
+		}
+		this.folder.destroy();
+	}
+
+	// Out from the centre to the right for correlated channels, to the left
+	// when they're out of phase
+	private updateMeter(correlation: number, size: number) {
+		const { params, track, needle, color } = this;
+		const y = -size / 2 - size * 0.08;
+		const half = size / 2;
+
+		track.visible = needle.visible = params.meter;
+		track.points.set([-half, y, 0, half, y, 0]);
+		needle.points.set([0, y, 0, correlation * half, y, 0]);
+
+		color.lerpColors(this.minColor, this.maxColor, (correlation + 1) / 2);
+		for (const line of [track, needle]) {
+			line.widths.fill(params.lineWidth * 3);
+			for (let i = 0; i < 2; i++) {
+				color.toArray(line.colors, i * 3);
+			}
+			line.glow = params.glow;
+			line.update();
+		}
+	}
+
+	private build() {
+		this.trace = new ThickLine(this.params.samples);
+		this.scene.add(this.trace);
+	}
+
+	private teardown() {
+		this.scene.remove(this.trace);
+		this.trace.dispose();
+	}
+
+	private rebuild() {
+		this.teardown();
+		this.build();
+	}
+}
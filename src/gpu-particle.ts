@@ -0,0 +1,468 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import {
+	GPUComputationRenderer,
+	type Variable,
+} from "three/examples/jsm/misc/GPUComputationRenderer.js";
+import { FixedStep } from "./clock";
+import { boundary } from "./constants";
+import { hash, hsl, simplexNoise3D } from "./glsl";
+import { computeAudioSensitivity } from "./particle";
+import { sliders } from "./sliders";
+import type {
+	AudioData,
+	BandLevels,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+// Particle counts and the square simulation textures that hold them
+const sizes: Record<string, number> = {
+	"16k": 128,
+	"65k": 256,
+	"102k": 320,
+	"262k": 512,
+	"1M": 1024,
+};
+
+const audioHistorySize = 10;
+
+// Shared by both simulation passes so they agree on who hit the boundary
+const boundaryCheck = /* glsl */ `
+uniform float boundary;
+uniform float frame;
+uniform float delta;
+
+bool outOfBounds(vec3 next, vec2 uv) {
+	float limit = boundary + hash(uv + frame * 0.618) * (boundary / 2.0);
+	return length(next) > limit;
+}
+`;
+
+// velocity.xyz is the velocity, velocity.w the particle's energy
+const velocityShader = /* glsl */ `
+uniform float time;
+uniform vec3 avgAudio;
+uniform vec3 bandFactors;
+uniform float audioLevel;
+uniform float pulse;
+uniform float baseSpeed;
+uniform float restThreshold;
+uniform float minEnergy;
+uniform float maxEnergy;
+uniform float noiseScale;
+uniform sampler2D textureSensitivity;
+
+${hash}
+${simplexNoise3D}
+${boundaryCheck}
+
+void main() {
+	vec2 uv = gl_FragCoord.xy / resolution.xy;
+	vec3 p = texture2D(texturePosition, uv).xyz;
+	vec4 velocity = texture2D(textureVelocity, uv);
+	vec3 sensitivity = texture2D(textureSensitivity, uv).xyz;
+	vec3 v = velocity.xyz;
+
+	float energy = clamp(
+		velocity.w + audioLevel * 0.1 * delta,
+		minEnergy,
+		maxEnergy
+	);
+
+	// Audio force, per band
+	vec3 bandForce = avgAudio * sensitivity * boundary * bandFactors;
+	vec3 audioForce = vec3(
+		sin(time * 2.0 + p.x) * bandForce.x,
+		cos(time * 3.0 + p.y) * bandForce.y,
+		sin(time * 4.0 + p.z) * bandForce.z
+	);
+
+	// Bass explosion on the beat
+	if (pulse > 0.05) {
+		vec3 seed = vec3(hash(uv + time), hash(uv + time + 1.0), hash(uv + time + 2.0));
+		vec3 direction = length(p) > 0.0 ? normalize(p) : vec3(0.0, 1.0, 0.0);
+		direction = normalize(direction + (seed - 0.5) * 0.4);
+
+		float strength = bandForce.x * 5.0 * pulse;
+		audioForce += direction * strength;
+		audioForce += (seed.zxy - 0.5) * strength;
+	}
+
+	// Centre attraction above the rest threshold, braking below it
+	vec3 centerForce = vec3(0.0);
+	float dist = length(p);
+	if (energy > restThreshold) {
+		float speedFactor = pow(
+			(dist / (boundary / 2.0)) * (energy - restThreshold),
+			2.0
+		);
+		if (dist > 0.0) {
+			centerForce = -p / dist * baseSpeed * speedFactor;
+		}
+	} else {
+		centerForce = -v * (max(0.0, restThreshold - energy) / restThreshold);
+	}
+
+	v += (audioForce + centerForce) * delta;
+
+	// Noise and wave drift
+	float quiet = 1.0 - audioLevel;
+	float noiseStrength = 0.2 * quiet * quiet * quiet * energy;
+	vec3 acceleration = vec3(snoise(p * noiseScale + time * 0.1)) * noiseStrength;
+
+	float waveStrength = (1.0 + audioLevel * 3.0) * energy;
+	float waveFrequency = 0.5 + audioLevel * 1.5;
+	acceleration.y += sin(time * waveFrequency + p.x * 0.1) * waveStrength;
+
+	v += acceleration * delta;
+
+	// Bounce off the boundary, losing energy
+	vec3 next = p + velocity.xyz * delta;
+	if (outOfBounds(next, uv)) {
+		v = reflect(v, normalize(next)) * 0.5;
+		energy *= 0.5;
+	}
+
+	gl_FragColor = vec4(v, energy);
+}
+`;
+
+const positionShader = /* glsl */ `
+${hash}
+${boundaryCheck}
+
+void main() {
+	vec2 uv = gl_FragCoord.xy / resolution.xy;
+	vec4 position = texture2D(texturePosition, uv);
+	vec3 velocity = texture2D(textureVelocity, uv).xyz;
+
+	vec3 next = position.xyz + velocity * delta;
+	if (outOfBounds(next, uv)) {
+		next = normalize(next) * boundary;
+	}
+
+	gl_FragColor = vec4(next, position.w);
+}
+`;
+
+const vertexShader = /* glsl */ `
+uniform sampler2D texturePosition;
+uniform sampler2D texturePrevious;
+uniform float alpha;
+uniform float pointSize;
+uniform float size;
+
+attribute vec2 reference;
+varying vec3 vColor;
+
+${hsl}
+
+void main() {
+	vec3 current = texture2D(texturePosition, reference).xyz;
+	vec3 previous = texture2D(texturePrevious, reference).xyz;
+	vec3 p = mix(previous, current, alpha);
+
+	float index = floor(reference.y * size) * size + floor(reference.x * size);
+	vColor = hsl2rgb(vec3(index / (size * size), 1.0, 0.5));
+
+	gl_Position = projectionMatrix * modelViewMatrix * vec4(p, 1.0);
+	gl_PointSize = pointSize;
+}
+`;
+
+const fragmentShader = /* glsl */ `
+varying vec3 vColor;
+
+void main() {
+	gl_FragColor = vec4(vColor, 1.0);
+	#include <colorspace_fragment>
+}
+`;
+
+// What a build allocates, and a rebuild disposes of
+interface Simulation {
+	compute: GPUComputationRenderer;
+	sensitivity: THREE.DataTexture;
+	points: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>;
+}
+
+// The BasicParticleSystem force model, simulated on the GPU. Positions and
+// velocities live in float textures that ping-pong between render targets.
+export class GpuParticleSystem implements Vslzr {
+	public params = {
+		count: "102k",
+		pointSize: 1,
+		baseSpeed: 5,
+		restThreshold: 0.4,
+		noiseScale: 0.92,
+	};
+	public ranges: ParamRanges = {};
+
+	private renderer: THREE.WebGLRenderer;
+	private folder: GUI;
+	private compute!: GPUComputationRenderer;
+	private positionVariable!: Variable;
+	private velocityVariable!: Variable;
+	private sensitivity!: THREE.DataTexture;
+	private points!: Simulation["points"];
+	// The `count` the simulation was last built for
+	private count = "";
+
+	private stepper = new FixedStep(1 / 60);
+	private audioHistory: BandLevels[] = [];
+	private time = 0;
+	private frame = 0;
+
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+		context: VslzrContext,
+	) {
+		this.renderer = context.renderer;
+
+		this.folder = gui.addFolder("GPU particles");
+		const slider = sliders(this.folder, this.params, this.ranges);
+		this.folder
+			.add(this.params, "count", Object.keys(sizes))
+			.name("Particles")
+			.onChange(() => this.rebuild());
+		slider("pointSize", 1, 8).name("Point size");
+		slider("baseSpeed", 0, 20).name("Base speed");
+		slider("restThreshold", 0, 1).name("Rest threshold");
+		slider("noiseScale", 0, 4).name("Noise scale");
+
+		try {
+			this.build();
+		} catch (error) {
+			this.folder.destroy();
+			throw error;
+		}
+	}
+
+	update(audioData: AudioData, delta: number): void {
+		const { low, mid, high } = audioData;
+		this.audioHistory.push({ low, mid, high });
+		if (this.audioHistory.length > audioHistorySize) {
+			this.audioHistory.shift();
+		}
+
+		const alpha = this.stepper.advance(delta, (step) => {
+			this.time += step;
+			this.frame++;
+			this.simulate(audioData, step);
+		});
+
+		const uniforms = this.points.material.uniforms;
+		uniforms.texturePosition.value = this.compute.getCurrentRenderTarget(
+			this.positionVariable,
+		).texture;
+		uniforms.texturePrevious.value = this.compute.getAlternateRenderTarget(
+			this.positionVariable,
+		).texture;
+		uniforms.alpha.value = alpha;
+		uniforms.pointSize.value = this.params.pointSize;
+	}
+
+	dispose(): void {
+		this.teardown();
+		this.folder.destroy();
+	}
+
+	private simulate(audioData: AudioData, step: number) {
+		const average = { low: 0, mid: 0, high: 0 };
+		for (const levels of this.audioHistory) {
+			average.low += levels.low / this.audioHistory.length;
+			average.mid += levels.mid / this.audioHistory.length;
+			average.high += levels.high / this.audioHistory.length;
+		}
+
+		const velocity = this.velocityVariable.material.uniforms;
+		velocity.time.value = this.time;
+		velocity.avgAudio.value.set(average.low, average.mid, average.high);
+		velocity.audioLevel.value =
+			(audioData.low + audioData.mid + audioData.high) / 3;
+		velocity.pulse.value = audioData.beat.pulse;
+		velocity.baseSpeed.value = this.params.baseSpeed;
+		velocity.restThreshold.value = this.params.restThreshold;
+		velocity.noiseScale.value = this.params.noiseScale;
+
+		for (const variable of [this.velocityVariable, this.positionVariable]) {
+			variable.material.uniforms.delta.value = step;
+			variable.material.uniforms.frame.value = this.frame;
+		}
+
+		this.compute.compute();
+	}
+
+	private build() {
+		const size = sizes[this.params.count] ?? sizes["102k"];
+		const compute = new GPUComputationRenderer(size, size, this.renderer);
+
+		const texels = size * size * 4;
+		const positions = new Float32Array(texels);
+		const velocities = new Float32Array(texels);
+		const sensitivities = new Float32Array(texels);
+		this.fillTextures(positions, velocities, sensitivities);
+		const sensitivity = floatTexture(sensitivities, size);
+
+		const velocityVariable = compute.addVariable(
+			"textureVelocity",
+			velocityShader,
+			floatTexture(velocities, size),
+		);
+		const positionVariable = compute.addVariable(
+			"texturePosition",
+			positionShader,
+			floatTexture(positions, size),
+		);
+		compute.setVariableDependencies(velocityVariable, [
+			positionVariable,
+			velocityVariable,
+		]);
+		compute.setVariableDependencies(positionVariable, [
+			positionVariable,
+			velocityVariable,
+		]);
+
+		const shared = () => ({
+			boundary: { value: boundary },
+			frame: { value: 0 },
+			delta: { value: 0 },
+		});
+		Object.assign(positionVariable.material.uniforms, shared());
+		Object.assign(velocityVariable.material.uniforms, shared(), {
+			time: { value: 0 },
+			avgAudio: { value: new THREE.Vector3() },
+			// Same weights as Particle's low, mid and high factors
+			bandFactors: { value: new THREE.Vector3(8, 2, 4) },
+			audioLevel: { value: 0 },
+			pulse: { value: 0 },
+			baseSpeed: { value: this.params.baseSpeed },
+			restThreshold: { value: this.params.restThreshold },
+			minEnergy: { value: 0.35 },
+			maxEnergy: { value: 1 },
+			noiseScale: { value: this.params.noiseScale },
+			textureSensitivity: { value: sensitivity },
+		});
+
+		// Fails without float render targets or vertex texture reads, and
+		// nothing would draw
+		const error = compute.init();
+		if (error !== null) {
+			compute.dispose();
+			sensitivity.dispose();
+			throw new Error(`GPU particles are not supported here: ${error}`);
+		}
+
+		this.compute = compute;
+		this.positionVariable = positionVariable;
+		this.velocityVariable = velocityVariable;
+		this.sensitivity = sensitivity;
+		this.points = this.createPoints(size);
+		this.scene.add(this.points);
+		this.count = this.params.count;
+	}
+
+	private fillTextures(
+		position: Float32Array,
+		velocity: Float32Array,
+		sensitivities: Float32Array,
+	) {
+		for (let i = 0; i < position.length; i += 4) {
+			const angle = Math.random() * Math.PI * 2;
+			const radius = Math.random() * boundary;
+
+			position[i] = Math.cos(angle) * radius;
+			position[i + 1] = Math.sin(angle) * radius;
+			position[i + 2] = (Math.random() - 0.5) * (boundary / 2);
+			position[i + 3] = 1;
+
+			velocity[i + 3] = 0.1; // Starting energy
+
+			const { low, mid, high } = computeAudioSensitivity();
+			sensitivities[i] = low;
+			sensitivities[i + 1] = mid;
+			sensitivities[i + 2] = high;
+			sensitivities[i + 3] = 1;
+		}
+	}
+
+	private createPoints(size: number) {
+		const count = size * size;
+		const geometry = new THREE.BufferGeometry();
+		const references = new Float32Array(count * 2);
+
+		for (let i = 0; i < count; i++) {
+			references[i * 2] = ((i % size) + 0.5) / size;
+			references[i * 2 + 1] = (Math.floor(i / size) + 0.5) / size;
+		}
+
+		// Positions come from the simulation texture, this only sets the count
+		geometry.setAttribute(
+			"position",
+			new THREE.BufferAttribute(new Float32Array(count * 3), 3),
+		);
+		geometry.setAttribute("reference", new THREE.BufferAttribute(references, 2));
+
+		const material = new THREE.ShaderMaterial({
+			uniforms: {
+				texturePosition: { value: null },
+				texturePrevious: { value: null },
+				alpha: { value: 0 },
+				pointSize: { value: this.params.pointSize },
+				size: { value: size },
+			},
+			vertexShader,
+			fragmentShader,
+			transparent: true,
+		});
+
+		const points = new THREE.Points(geometry, material);
+		points.frustumCulled = false;
+
+		return points;
+	}
+
+	// The new size is built before the old one goes, so when it can't start
+	// the simulation carries on at the size it had
+	private rebuild() {
+		const previous = this.simulation();
+		try {
+			this.build();
+		} catch (error) {
+			console.error("Error resizing GPU particles:", error);
+			this.params.count = this.count;
+			this.folder.controllersRecursive().forEach((c) => c.updateDisplay());
+			return;
+		}
+		this.teardown(previous);
+	}
+
+	private simulation(): Simulation {
+		const { compute, sensitivity, points } = this;
+		return { compute, sensitivity, points };
+	}
+
+	private teardown({ compute, sensitivity, points } = this.simulation()) {
+		this.scene.remove(points);
+		points.geometry.dispose();
+		points.material.dispose();
+		sensitivity.dispose();
+		compute.dispose();
+	}
+}
+
+function floatTexture(data: Float32Array, size: number) {
+	const texture = new THREE.DataTexture(
+		data,
+		size,
+		size,
+		THREE.RGBAFormat,
+		THREE.FloatType,
+	);
+	texture.needsUpdate = true;
+
+	return texture;
+}
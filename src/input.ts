@@ -0,0 +1,179 @@
+export interface InputSource {
+	readonly node: AudioNode;
+	readonly label: string;
+	// Whether the source should also be routed to the speakers
+	readonly audible: boolean;
+	dispose(): void;
+}
+
+export class MicSource implements InputSource {
+	readonly audible = false;
+	readonly label = "Microphone";
+
+	private constructor(
+		readonly node: MediaStreamAudioSourceNode,
+		private stream: MediaStream,
+	) {}
+
+	static async create(audioContext: AudioContext, deviceId?: string) {
+		const stream = await navigator.mediaDevices.getUserMedia({
+			audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+		});
+
+		return new MicSource(audioContext.createMediaStreamSource(stream), stream);
+	}
+
+	dispose() {
+		this.node.disconnect();
+		for (const track of this.stream.getTracks()) {
+			track.stop();
+		}
+	}
+}
+
+// Plays a file, a URL or an existing <audio> element. A media element can
+// only ever be attached to one source node, so pass each element in once.
+export class MediaElementSource implements InputSource {
+	readonly audible = true;
+	readonly label: string;
+	readonly node: MediaElementAudioSourceNode;
+	readonly element: HTMLMediaElement;
+	private objectUrl?: string;
+	private ownsElement: boolean;
+
+	constructor(
+		audioContext: AudioContext,
+		src: string | File | HTMLMediaElement,
+	) {
+		this.ownsElement = !(src instanceof HTMLMediaElement);
+
+		if (src instanceof HTMLMediaElement) {
+			this.element = src;
+			this.label = src.currentSrc || src.src || "Media element";
+		} else {
+			this.element = new Audio();
+			this.element.crossOrigin = "anonymous";
+			this.element.loop = true;
+
+			if (src instanceof File) {
+				this.objectUrl = URL.createObjectURL(src);
+				this.element.src = this.objectUrl;
+				this.label = src.name;
+			} else {
+				this.element.src = src;
+				this.label = src.split("/").pop() || src;
+			}
+		}
+
+		this.node = audioContext.createMediaElementSource(this.element);
+	}
+
+	get paused() {
+		return this.element.paused;
+	}
+
+	get duration() {
+		return Number.isFinite(this.element.duration) ? this.element.duration : 0;
+	}
+
+	get currentTime() {
+		return this.element.currentTime;
+	}
+
+	set currentTime(time: number) {
+		this.element.currentTime = Math.max(0, Math.min(time, this.duration));
+	}
+
+	play() {
+		return this.element.play();
+	}
+
+	pause() {
+		this.element.pause();
+	}
+
+	dispose() {
+		this.element.pause();
+		this.node.disconnect();
+
+		if (this.ownsElement) {
+			this.element.removeAttribute("src");
+			this.element.load();
+		}
+		if (this.objectUrl) {
+			URL.revokeObjectURL(this.objectUrl);
+		}
+	}
+}
+
+// A pulsing bass under a chord and a shimmer on top, so every band has
+// something going on without a microphone or a file
+export class DemoSource implements InputSource {
+	readonly audible = false;
+	readonly label = "Demo signal";
+	readonly node: GainNode;
+	private oscillators: OscillatorNode[] = [];
+
+	constructor(audioContext: AudioContext, bpm = 120) {
+		this.node = audioContext.createGain();
+
+		// A sawtooth LFO shaped into a decaying envelope, one hit per beat
+		const clock = this.oscillator(audioContext, bpm / 60, "sawtooth");
+		const envelope = audioContext.createWaveShaper();
+		envelope.curve = decayCurve(256);
+		clock.connect(envelope);
+
+		const kick = this.oscillator(audioContext, 55, "sine");
+		const kickGain = audioContext.createGain();
+		kickGain.gain.value = 0;
+		envelope.connect(kickGain.gain);
+		kick.connect(kickGain).connect(this.node);
+
+		const pad = audioContext.createGain();
+		pad.gain.value = 0.15;
+		for (const frequency of [220, 277.18, 329.63]) {
+			this.oscillator(audioContext, frequency, "triangle").connect(pad);
+		}
+		pad.connect(this.node);
+
+		const shimmer = this.oscillator(audioContext, 3520, "sine");
+		const tremolo = this.oscillator(audioContext, 6, "sine");
+		const depth = audioContext.createGain();
+		const shimmerGain = audioContext.createGain();
+		depth.gain.value = 0.05;
+		shimmerGain.gain.value = 0.05;
+		tremolo.connect(depth).connect(shimmerGain.gain);
+		shimmer.connect(shimmerGain).connect(this.node);
+	}
+
+	dispose() {
+		for (const oscillator of this.oscillators) {
+			oscillator.stop();
+			oscillator.disconnect();
+		}
+		this.node.disconnect();
+	}
+
+	private oscillator(
+		audioContext: AudioContext,
+		frequency: number,
+		type: OscillatorType,
+	) {
+		const oscillator = audioContext.createOscillator();
+		oscillator.type = type;
+		oscillator.frequency.value = frequency;
+		oscillator.start();
+		this.oscillators.push(oscillator);
+
+		return oscillator;
+	}
+}
+
+// Maps a rising sawtooth (-1..1) to an envelope falling from 1 to 0
+function decayCurve(size: number) {
+	const curve = new Float32Array(size);
+	for (let i = 0; i < size; i++) {
+		curve[i] = (1 - i / (size - 1)) ** 3;
+	}
+	return curve;
+}
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+import { parseLayers } from "./layers";
+
+describe("parseLayers", () => {
+	test("fills in defaults and drops settings of the wrong type", () => {
+		const layers = parseLayers([
+			{ opacity: 0.5, blend: "add" },
+			{ vslzr: "wave", params: { amplitude: 2 }, scale: "big" },
+			"nope",
+		]);
+
+		expect(layers).toHaveLength(2);
+		expect(layers[0].opacity).toBe(0.5);
+		expect(layers[0].blend).toBe("add");
+		expect(layers[0].vslzr).toBeUndefined();
+		expect(layers[1].vslzr).toBe("wave");
+		expect(layers[1].params).toEqual({ amplitude: 2 });
+		expect(layers[1].scale).toBe(1);
+		expect(parseLayers(undefined)).toEqual([]);
+	});
+});
@@ -0,0 +1,423 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import type { AudioAnalyser } from "./analysis";
+import { AudioGate, gateRanges } from "./gate";
+import { ParamMorph, isParams } from "./morph";
+import { defaultVslzr, getVslzr, vslzrNames } from "./registry";
+import { sliders } from "./sliders";
+import type {
+	AudioData,
+	ParamRanges,
+	ParamScope,
+	Params,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+// Blend factors for compositing a layer's premultiplied colour over the
+// layers below it
+const blendModes: Record<
+	string,
+	[THREE.BlendingSrcFactor, THREE.BlendingDstFactor]
+> = {
+	normal: [THREE.OneFactor, THREE.OneMinusSrcAlphaFactor],
+	add: [THREE.OneFactor, THREE.OneFactor],
+	screen: [THREE.OneFactor, THREE.OneMinusSrcColorFactor],
+	multiply: [THREE.ZeroFactor, THREE.SrcColorFactor],
+};
+
+// Bands a layer can be limited to reacting to
+const gates = ["all", ...Object.keys(gateRanges)];
+
+export interface LayerSettings {
+	visible: boolean;
+	opacity: number;
+	blend: string;
+	gate: string;
+	x: number;
+	y: number;
+	scale: number;
+	// Degrees
+	rotation: number;
+}
+
+// A layer as saved in a preset. The main layer has no `vslzr` or `params`,
+// those are the preset's own.
+export interface LayerPreset extends LayerSettings {
+	vslzr?: string;
+	params?: Params;
+}
+
+const defaultSettings: LayerSettings = {
+	visible: true,
+	opacity: 1,
+	blend: "normal",
+	gate: "all",
+	x: 0,
+	y: 0,
+	scale: 1,
+	rotation: 0,
+};
+
+// Reads layers from a preset, dropping settings of the wrong type
+export function parseLayers(value: unknown): LayerPreset[] {
+	if (!Array.isArray(value)) return [];
+
+	return value.filter(isParams).map((layer) => {
+		const parsed: LayerPreset = { ...defaultSettings };
+		for (const key of Object.keys(parsed) as (keyof LayerSettings)[]) {
+			if (typeof layer[key] === typeof parsed[key]) {
+				(parsed as unknown as Params)[key] = layer[key];
+			}
+		}
+		if (typeof layer.vslzr === "string") parsed.vslzr = layer.vslzr;
+		if (isParams(layer.params)) parsed.params = layer.params;
+
+		return parsed;
+	});
+}
+
+const compositeShader = {
+	vertexShader: /* glsl */ `
+		varying vec2 vUv;
+
+		void main() {
+			vUv = uv;
+			gl_Position = vec4(position.xy, 0.0, 1.0);
+		}
+	`,
+	fragmentShader: /* glsl */ `
+		uniform sampler2D map;
+		uniform float opacity;
+		uniform bool multiply;
+		varying vec2 vUv;
+
+		void main() {
+			vec4 color = texture2D(map, vUv) * opacity;
+
+			// Multiplying by white leaves the layers below alone
+			gl_FragColor = multiply
+				? vec4(vec3(1.0 - color.a) + color.rgb, 1.0)
+				: color;
+
+			// Layers are drawn in linear light. This converts them for the
+			// canvas, and leaves them linear for the effects, whose output
+			// pass converts instead.
+			#include <colorspace_fragment>
+		}
+	`,
+};
+
+class Layer {
+	public settings: LayerSettings = { ...defaultSettings };
+	// Of the numeric settings
+	public readonly ranges: ParamRanges = {};
+	public vslzr?: Vslzr;
+	public readonly gate = new AudioGate();
+	public readonly scene = new THREE.Scene();
+	public readonly target: THREE.WebGLRenderTarget;
+	public readonly quad: THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+
+	constructor(
+		public readonly folder: GUI,
+		public name: string,
+		size: THREE.Vector2,
+	) {
+		// Multisampled, a render target doesn't get the canvas' antialiasing
+		this.target = new THREE.WebGLRenderTarget(size.x, size.y, { samples: 4 });
+		this.quad = new THREE.Mesh(
+			new THREE.PlaneGeometry(2, 2),
+			new THREE.ShaderMaterial({
+				...compositeShader,
+				uniforms: {
+					map: { value: this.target.texture },
+					opacity: { value: 1 },
+					multiply: { value: false },
+				},
+				blending: THREE.CustomBlending,
+				depthTest: false,
+				depthWrite: false,
+				transparent: true,
+			}),
+		);
+		this.quad.frustumCulled = false;
+	}
+
+	get main() {
+		return this.name === "";
+	}
+
+	// Applies the transform and blend settings before a frame
+	sync() {
+		const { settings, scene, quad } = this;
+		const [src, dst] = blendModes[settings.blend] ?? blendModes.normal;
+
+		scene.position.set(settings.x, settings.y, 0);
+		scene.scale.setScalar(settings.scale);
+		scene.rotation.z = THREE.MathUtils.degToRad(settings.rotation);
+
+		quad.visible = settings.visible;
+		quad.material.blendSrc = src;
+		quad.material.blendDst = dst;
+		quad.material.uniforms.opacity.value = settings.opacity;
+		quad.material.uniforms.multiply.value = settings.blend === "multiply";
+	}
+
+	dispose() {
+		this.vslzr?.dispose();
+		this.target.dispose();
+		this.quad.geometry.dispose();
+		this.quad.material.dispose();
+		this.folder.destroy();
+	}
+}
+
+// Runs several visualizers at once, each drawn into its own render target
+// and composited in order. The main layer is the one the visualizer picker,
+// presets and modulation work on; the others are stacked around it.
+export class LayerStack {
+	// Full-screen quads, one per layer, for whatever renders the frame
+	public readonly scene = new THREE.Scene();
+	public readonly camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+	public readonly main: Layer;
+
+	private layers: Layer[] = [];
+	private renderer: THREE.WebGLRenderer;
+	private folder: GUI;
+	private state = { vslzr: defaultVslzr };
+	private clearColor = new THREE.Color();
+
+	constructor(
+		private context: VslzrContext,
+		gui: GUI,
+	) {
+		this.renderer = context.renderer;
+		this.folder = gui.addFolder("Layers");
+		this.folder.add(this.state, "vslzr", vslzrNames()).name("New layer");
+		this.folder
+			.add({ add: () => this.addLayer(this.state.vslzr) }, "add")
+			.name("Add layer");
+		this.folder.close();
+
+		this.main = this.createLayer("");
+	}
+
+	// Hands the main layer the visualizer built on its scene. That one lives
+	// in the root GUI, so disposing it is left to whoever built it.
+	setMain(vslzr: Vslzr | undefined, name: string) {
+		this.main.vslzr = vslzr;
+		this.main.folder.title(`${name} (main)`);
+	}
+
+	addLayer(name: string, settings?: Partial<LayerSettings>, params?: Params) {
+		const impl = getVslzr(name);
+		if (!impl) {
+			console.warn(`Unknown vslzr "${name}", no layer added`);
+			return;
+		}
+
+		const layer = this.createLayer(name);
+		try {
+			layer.vslzr = new impl(layer.scene, layer.folder, this.context);
+		} catch (error) {
+			console.error(`Error starting vslzr "${name}":`, error);
+			this.removeLayer(layer);
+			return;
+		}
+		Object.assign(layer.settings, settings);
+
+		const { vslzr } = layer;
+		if (params && vslzr.params) {
+			new ParamMorph().start(
+				vslzr.params,
+				params,
+				layer.folder,
+				0,
+				vslzr.ranges,
+			);
+		}
+		layer.folder.controllersRecursive().forEach((c) => c.updateDisplay());
+
+		return layer;
+	}
+
+	// `analyser` is the one that made `audioData`
+	update(audioData: AudioData, delta: number, analyser: AudioAnalyser) {
+		for (const layer of this.layers) {
+			if (!layer.settings.visible) continue;
+
+			const gated = layer.gate.apply(
+				audioData,
+				layer.settings.gate,
+				delta,
+				analyser,
+			);
+			layer.vslzr?.update(gated, delta);
+		}
+	}
+
+	// Draws every visible layer into its target, ready for `scene` to be
+	// rendered
+	render(camera: THREE.Camera) {
+		const renderer = this.renderer;
+		const previous = renderer.getRenderTarget();
+		const alpha = renderer.getClearAlpha();
+		renderer.getClearColor(this.clearColor);
+		renderer.setClearColor(0x000000, 0);
+
+		for (const layer of this.layers) {
+			layer.sync();
+			if (!layer.settings.visible) continue;
+
+			renderer.setRenderTarget(layer.target);
+			renderer.render(layer.scene, camera);
+		}
+
+		renderer.setRenderTarget(previous);
+		renderer.setClearColor(this.clearColor, alpha);
+	}
+
+	// Call after the renderer's size or pixel ratio changes
+	resize() {
+		const size = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+
+		for (const layer of this.layers) {
+			layer.target.setSize(size.x, size.y);
+		}
+	}
+
+	// Each layer's settings and visualizer params, keyed by the layer's place
+	// in the stack. The main layer's visualizer is left to its owner.
+	scopes(): ParamScope[] {
+		return this.layers.flatMap((layer, index) => {
+			const key = `layer ${index}`;
+			const scopes: ParamScope[] = [
+				{
+					key,
+					params: layer.settings as unknown as Params,
+					ranges: layer.ranges,
+				},
+			];
+			const { vslzr } = layer;
+			if (!layer.main && vslzr?.params) {
+				scopes.push({
+					key: `${key}/${layer.name}`,
+					params: vslzr.params,
+					ranges: vslzr.ranges ?? {},
+				});
+			}
+
+			return scopes;
+		});
+	}
+
+	// The whole stack in drawing order, for presets
+	toPreset(): LayerPreset[] {
+		return this.layers.map((layer) => {
+			const settings = { ...layer.settings };
+			const params = layer.vslzr?.params;
+
+			return layer.main || !params
+				? settings
+				: { ...settings, vslzr: layer.name, params: structuredClone(params) };
+		});
+	}
+
+	// Replaces the stack with a preset's, keeping the main layer
+	load(layers: LayerPreset[]) {
+		for (const layer of [...this.layers]) {
+			if (!layer.main) this.removeLayer(layer);
+		}
+
+		const order: Layer[] = [];
+		for (const { vslzr, params, ...settings } of layers) {
+			if (vslzr === undefined) {
+				Object.assign(this.main.settings, settings);
+				order.push(this.main);
+				continue;
+			}
+
+			const layer = this.addLayer(vslzr, settings, params);
+			if (layer) order.push(layer);
+		}
+		if (!order.includes(this.main)) order.unshift(this.main);
+
+		this.layers = order;
+		this.arrange();
+		this.folder.controllersRecursive().forEach((c) => c.updateDisplay());
+	}
+
+	// Removes every layer, leaving the main layer's visualizer to its owner
+	dispose() {
+		for (const layer of [...this.layers]) {
+			this.removeLayer(layer);
+		}
+		this.main.vslzr = undefined;
+		this.main.dispose();
+		this.folder.destroy();
+	}
+
+	private createLayer(name: string) {
+		const folder = this.folder.addFolder(name || "main");
+		const size = this.renderer.getDrawingBufferSize(new THREE.Vector2());
+		const layer = new Layer(folder, name, size);
+
+		const settings = layer.settings as unknown as Params;
+		const slider = sliders(folder, settings, layer.ranges);
+
+		folder.add(layer.settings, "visible").name("Visible");
+		slider("opacity", 0, 1).name("Opacity");
+		folder.add(layer.settings, "blend", Object.keys(blendModes)).name("Blend");
+		folder.add(layer.settings, "gate", gates).name("React to");
+		slider("x", -20, 20).name("X");
+		slider("y", -20, 20).name("Y");
+		slider("scale", 0.1, 4).name("Scale");
+		slider("rotation", -180, 180).name("Rotation");
+
+		const actions = {
+			up: () => this.moveLayer(layer, 1),
+			down: () => this.moveLayer(layer, -1),
+			remove: () => this.removeLayer(layer),
+		};
+		folder.add(actions, "up").name("Move up");
+		folder.add(actions, "down").name("Move down");
+		if (name) {
+			folder.add(actions, "remove").name("Remove");
+		}
+
+		this.layers.push(layer);
+		this.scene.add(layer.quad);
+		this.arrange();
+
+		return layer;
+	}
+
+	private moveLayer(layer: Layer, offset: number) {
+		const from = this.layers.indexOf(layer);
+		const to = Math.min(Math.max(from + offset, 0), this.layers.length - 1);
+		if (from === to) return;
+
+		this.layers.splice(from, 1);
+		this.layers.splice(to, 0, layer);
+		this.arrange();
+	}
+
+	private removeLayer(layer: Layer) {
+		if (layer.main) return;
+
+		this.layers = this.layers.filter((l) => l !== layer);
+		this.scene.remove(layer.quad);
+		layer.dispose();
+		this.arrange();
+	}
+
+	// Draws layers in stack order and lists them top first in the GUI
+	private arrange() {
+		this.layers.forEach((layer, index) => {
+			layer.quad.renderOrder = index;
+		});
+		for (const layer of [...this.layers].reverse()) {
+			this.folder.$children.appendChild(layer.folder.domElement);
+		}
+	}
+}
@@ -0,0 +1,31 @@
+// Entry point for embedding vslzr in another app. Custom visualizers
+// implement `Vslzr` and are made available with `registerVslzr`.
+export { Emitter } from "./emitter";
+export {
+	type InputSource,
+	MediaElementSource,
+	MicSource,
+} from "./input";
+export {
+	type PlayerEvents,
+	type PlayerOptions,
+	VslzrPlayer,
+} from "./player";
+export type { Preset } from "./presets";
+export { registerVslzr, vslzrNames } from "./registry";
+export { sliders } from "./sliders";
+export type {
+	AudioData,
+	BandLevels,
+	BeatData,
+	Bounds,
+	ChannelData,
+	ParamRange,
+	ParamRanges,
+	ParamValue,
+	Params,
+	StereoData,
+	Vslzr,
+	VslzrContext,
+	VslzrImpl,
+} from "./types";
@@ -1,16 +1,33 @@
 import type { GUI } from "lil-gui";
 import { createNoise2D } from "simplex-noise";
 import * as THREE from "three";
-import type { AudioData, Vslzr } from "./types";
+import { FixedStep } from "./clock";
+import {
+	fitRadius,
+	layouts,
+	radialPointCount,
+	wrapRadial,
+} from "./radial";
+import { sliders } from "./sliders";
+import { type LineData, ThickLine, createLineData } from "./thick-line";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
 
 export class LineVslzr implements Vslzr {
-	private geometry: THREE.BufferGeometry;
-	private material: THREE.LineBasicMaterial;
 	private positions: Float32Array;
+	// The string is simulated in fixed steps; `positions` holds the
+	// interpolation between the last two steps for rendering
+	private displacements: Float32Array;
+	private previousDisplacements: Float32Array;
 	private velocities: Float32Array;
 	private dampingFactors: Float32Array;
 
-	private params = {
+	public params = {
 		amplitude: 1,
 		numPoints: 100,
 		decay: 0.5,
@@ -19,33 +36,80 @@ export class LineVslzr implements Vslzr {
 		numShadowLines: 20,
 		shadowOpacity: 0.75,
 		colorRange: { min: "#141414", max: "#FB00FF" },
+		// Pixels, plus up to `widthResponse` more where the string is loudest
+		lineWidth: 2,
+		widthResponse: 3,
+		glow: 0.5,
 		lineLength: 20,
+		// Shortens the line to the visible width when that's narrower, or
+		// shrinks the radius when wrapped around the centre
+		fitToScreen: true,
+		layout: "line",
+		radius: 5,
+		rotationSpeed: 0.05,
+		symmetry: 1,
+		spiralTurns: 3,
 		tension: 300,
+		beatPulse: 0.5,
+		// How far the swing leans towards the louder channel, 0 keeps it even
+		stereoTilt: 0.5,
 		// wave speed = sqrt(tension / density)
 		waveSpeed: Math.sqrt(300 / 0.03),
 	};
+	public ranges: ParamRanges = {};
 
 	private time: number;
+	private stepper = new FixedStep(1 / 60);
 	private noise = createNoise2D();
-	private shadowLines: THREE.Line[] = [];
+	private line: ThickLine;
+	// The string laid out straight, before it's wrapped into `line`
+	private strip!: LineData;
+	private rotation = 0;
+	private shadowLines: ThickLine[] = [];
+	private folder: GUI;
+	private bounds: Bounds;
+	// The length the points were last spread over
+	private laidOutLength = 0;
+	// Stereo balance times `stereoTilt`, -1 leans fully left
+	private tilt = 0;
 
 	constructor(
 		private scene: THREE.Scene,
 		private gui: GUI,
+		context: VslzrContext,
 	) {
-		const folder = gui.addFolder("Line vslzr");
-
-		folder.add(this.params, "amplitude", 0, 2);
-		folder.add(this.params, "numPoints", 10, 1000, 1);
-		folder.add(this.params, "decay", 0, 1);
-		folder.add(this.params, "tension", 0, 1000);
-		folder.add(this.params, "damping", 0, 1);
-		folder.add(this.params, "excitability", 0, 1);
-		folder.add(this.params, "numShadowLines", 0, 100);
-		folder.add(this.params, "shadowOpacity", 0, 1);
+		this.bounds = context.bounds;
 
-		folder.add(this.params, "lineLength", 0, 40);
-		folder.add(this.params, "waveSpeed", 0, 100);
+		const folder = gui.addFolder("Line vslzr");
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		slider("amplitude", 0, 2);
+		slider("numPoints", 10, 1000, 1);
+		slider("decay", 0, 1);
+		slider("tension", 0, 1000);
+		slider("damping", 0, 1);
+		slider("excitability", 0, 1);
+		slider("beatPulse", 0, 2);
+		slider("stereoTilt", 0, 1);
+		slider("numShadowLines", 0, 100, 1);
+		slider("shadowOpacity", 0, 1);
+
+		slider("lineLength", 1, 40).onChange(() => this.layoutLine());
+		folder
+			.add(this.params, "fitToScreen")
+			.onChange(() => this.layoutLine());
+		folder
+			.add(this.params, "layout", layouts)
+			.onChange(() => this.resizeLine());
+		slider("radius", 0.5, 10);
+		slider("rotationSpeed", -1, 1);
+		slider("symmetry", 1, 8, 1);
+		slider("spiralTurns", 1, 10);
+		slider("waveSpeed", 0, 100);
+		slider("lineWidth", 0.5, 10);
+		slider("widthResponse", 0, 20);
+		slider("glow", 0, 2);
 
 		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
 		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
@@ -53,64 +117,191 @@ export class LineVslzr implements Vslzr {
 		this.shadowLines = [];
 
 		this.positions = new Float32Array(this.params.numPoints * 3);
+		this.displacements = new Float32Array(this.params.numPoints);
+		this.previousDisplacements = new Float32Array(this.params.numPoints);
 		this.velocities = new Float32Array(this.params.numPoints);
 		this.dampingFactors = new Float32Array(this.params.numPoints);
-		this.geometry = new THREE.BufferGeometry();
-		this.material = new THREE.LineBasicMaterial({
-			color: 0xffffff,
-			linewidth: 2,
-		});
 
 		this.time = 0;
 
-		this.initLine();
+		this.line = this.initLine();
 		this.initShadowLines();
 	}
 
 	private initLine() {
+		this.layoutLine();
+		this.strip = createLineData(this.params.numPoints);
+		this.strip.points.set(this.positions);
+
+		const line = new ThickLine(
+			radialPointCount(this.params.numPoints, this.params),
+		);
+		this.drawLine(line);
+		this.scene.add(line);
+
+		return line;
+	}
+
+	// Copies the straight string into `line`, or wraps it around the centre
+	private drawLine(line: ThickLine) {
+		const { params, bounds } = this;
+
+		if (params.layout === "line") {
+			line.copyLine(this.strip);
+			line.closed = false;
+		} else {
+			const radius = params.fitToScreen
+				? fitRadius(params, bounds)
+				: params.radius;
+			wrapRadial(
+				this.strip,
+				params.numPoints,
+				line,
+				params,
+				radius,
+				this.rotation,
+			);
+		}
+		line.update();
+	}
+
+	private get length() {
+		const { lineLength, fitToScreen } = this.params;
+		return fitToScreen ? Math.min(lineLength, this.bounds.width) : lineLength;
+	}
+
+	// Spreads the points along the line, leaving their displacement alone
+	private layoutLine() {
+		const length = this.length;
+		this.laidOutLength = length;
+
 		for (let i = 0; i < this.params.numPoints; i++) {
-			const x =
-				(i / (this.params.numPoints - 1)) * this.params.lineLength -
-				this.params.lineLength / 2;
+			const x = (i / (this.params.numPoints - 1)) * length - length / 2;
 			this.positions[i * 3] = x;
-			this.positions[i * 3 + 1] = 0;
-			this.positions[i * 3 + 2] = 0;
-			this.velocities[i] = 0;
 
 			// Calculate damping factor based on distance from center
 			const distanceFromCenter = Math.abs(x);
-			const normalizedDistance =
-				distanceFromCenter / (this.params.lineLength / 2);
+			const normalizedDistance = distanceFromCenter / (length / 2);
 			this.dampingFactors[i] = Math.pow(normalizedDistance, 2); // Quadratic scaling
 		}
+	}
 
-		this.geometry.setAttribute(
-			"position",
-			new THREE.BufferAttribute(this.positions, 3),
-		);
-		const line = new THREE.Line(this.geometry, this.material);
-
-		this.scene.add(line);
+	// Reallocates the string for a new point count. The displacement and
+	// velocity are resampled onto the new points so the motion carries on.
+	private resizeLine() {
+		const count = this.params.numPoints;
+		const displacements = new Float32Array(count);
+		const velocities = new Float32Array(count);
+
+		resample(this.displacements, displacements);
+		resample(this.velocities, velocities);
+
+		this.positions = new Float32Array(count * 3);
+		this.displacements = displacements;
+		this.previousDisplacements = new Float32Array(displacements);
+		this.velocities = velocities;
+		this.dampingFactors = new Float32Array(count);
+
+		this.scene.remove(this.line);
+		this.line.dispose();
+		this.line = this.initLine();
+		this.interpolatePositions(1);
+
+		// The trail has the old point count, so start it over from here
+		for (const shadowLine of this.shadowLines) {
+			this.removeShadowLine(shadowLine);
+		}
+		this.shadowLines = [];
+		this.initShadowLines();
 	}
 
 	public update(audioData: AudioData, delta: number): void {
-		this.time += delta;
+		const { params } = this;
+
+		// Counts are picked up here rather than in the GUI, as modulation
+		// routes change them too
+		if (
+			this.displacements.length !== params.numPoints ||
+			this.line.pointCount !== radialPointCount(params.numPoints, params)
+		) {
+			this.resizeLine();
+		}
+		if (this.shadowLines.length !== params.numShadowLines) {
+			this.resizeShadowLines();
+		}
+		// The visible width changes with the window
+		if (this.length !== this.laidOutLength) {
+			this.layoutLine();
+		}
+
+		const alpha = this.stepper.advance(delta, (step) => {
+			this.time += step;
+			this.previousDisplacements.set(this.displacements);
+			this.updateLinePositions(audioData, step);
+		});
 
+		this.tilt = this.params.stereoTilt * audioData.stereo.balance;
+		this.interpolatePositions(alpha);
 		this.updateMaterialProperties(audioData);
-		this.updateLinePositions(audioData, delta);
-		this.updateShadowLines(audioData);
-		this.geometry.attributes.position.needsUpdate = true;
+		this.rotation =
+			(this.rotation + delta * this.params.rotationSpeed * Math.PI * 2) %
+			(Math.PI * 2);
+		this.strip.points.set(this.positions);
+		this.drawLine(this.line);
+		this.updateShadowLines();
+	}
+
+	// Also leans the swing towards the louder side: the quieter half is
+	// scaled down as the louder one is scaled up
+	private interpolatePositions(alpha: number) {
+		const half = this.laidOutLength / 2;
+
+		for (let i = 0; i < this.params.numPoints; i++) {
+			const previous = this.previousDisplacements[i];
+			const lean = 1 + (this.tilt * this.positions[i * 3]) / half;
+			this.positions[i * 3 + 1] =
+				(previous + (this.displacements[i] - previous) * alpha) * lean;
+		}
 	}
 
+	public dispose(): void {
+		this.scene.remove(this.line);
+		this.line.dispose();
+
+		for (const shadowLine of this.shadowLines) {
+			this.removeShadowLine(shadowLine);
+		}
+		this.shadowLines = [];
+
+		this.folder.destroy();
+	}
+
+	// Thickest and brightest mid-string, where it swings the most, tapering
+	// towards the fixed ends
 	private updateMaterialProperties(audioData: AudioData): void {
 		const totalAmplitude = this.calculateTotalAmplitude(audioData);
-		this.material.color.set(this.computeColor(audioData));
-		this.material.linewidth = 2 + totalAmplitude * 3;
+		const { numPoints, lineWidth, widthResponse, glow, beatPulse } =
+			this.params;
+		const minColor = new THREE.Color(this.params.colorRange.min);
+		const color = this.computeColor(audioData);
+		const pointColor = new THREE.Color();
+
+		for (let i = 0; i < numPoints; i++) {
+			const shape = Math.sin((i / (numPoints - 1)) * Math.PI);
+
+			this.strip.widths[i] = lineWidth + totalAmplitude * widthResponse * shape;
+			pointColor
+				.lerpColors(minColor, color, 0.5 + shape * 0.5)
+				.toArray(this.strip.colors, i * 3);
+		}
+
+		this.line.glow = glow * (1 + audioData.beat.pulse * beatPulse);
 	}
 
 	private calculateTotalAmplitude(audioData: AudioData): number {
-		const { low, mid, high } = audioData;
-		return (low * 2 + mid * 0.01 + high * 0.25) / 3;
+		const { low, mid, high, beat } = audioData;
+		const pulse = 1 + beat.pulse * this.params.beatPulse;
+		return ((low * 2 + mid * 0.01 + high * 0.25) / 3) * pulse;
 	}
 
 	private updateLinePositions(audioData: AudioData, delta: number): void {
@@ -138,7 +329,6 @@ export class LineVslzr implements Vslzr {
 		delta: number,
 		decayFactor: number,
 	): void {
-		const index = i * 3 + 1;
 		const x = this.positions[i * 3];
 
 		const displacement = this.calculateDisplacement(
@@ -148,11 +338,10 @@ export class LineVslzr implements Vslzr {
 		);
 		const noiseForce = this.calculateNoiseForce(x);
 		const audioForce = this.calculateAudioForce(audioData);
-		const tensionForce = this.calculateTensionForce(this.positions[index]);
+		const tensionForce = this.calculateTensionForce(this.displacements[i]);
 
 		this.updateVelocityAndPosition(
 			i,
-			index,
 			displacement,
 			noiseForce,
 			audioForce,
@@ -174,10 +363,10 @@ export class LineVslzr implements Vslzr {
 		for (let n = 1; n <= 5; n++) {
 			const A_n = scaledAmplitude * Math.exp(-n * 0.5);
 			const omega_n =
-				(n * Math.PI * this.params.waveSpeed) / this.params.lineLength;
+				(n * Math.PI * this.params.waveSpeed) / this.length;
 			displacement +=
 				A_n *
-				Math.sin((n * Math.PI * x) / this.params.lineLength) *
+				Math.sin((n * Math.PI * x) / this.length) *
 				Math.cos(omega_n * this.time);
 		}
 
@@ -194,12 +383,11 @@ export class LineVslzr implements Vslzr {
 	}
 
 	private calculateTensionForce(position: number): number {
-		return -position * (this.params.tension / this.params.lineLength);
+		return -position * (this.params.tension / this.length);
 	}
 
 	private updateVelocityAndPosition(
 		i: number,
-		index: number,
 		displacement: number,
 		noiseForce: number,
 		audioForce: number,
@@ -210,13 +398,13 @@ export class LineVslzr implements Vslzr {
 		const totalDisplacement = displacement + noiseForce + audioForce;
 
 		this.velocities[i] +=
-			(totalDisplacement + tensionForce - this.positions[index]) * delta;
+			(totalDisplacement + tensionForce - this.displacements[i]) * delta;
 
 		const scaledDamping = this.params.damping + this.dampingFactors[i] * 0.9;
 		this.velocities[i] *= 1 - scaledDamping;
 
-		this.positions[index] += this.velocities[i];
-		this.positions[index] *= decayFactor;
+		this.displacements[i] += this.velocities[i];
+		this.displacements[i] *= decayFactor;
 	}
 
 	private computeColor({ low, mid, high }: AudioData): THREE.Color {
@@ -230,47 +418,68 @@ export class LineVslzr implements Vslzr {
 		return new THREE.Color().lerpColors(minColor, maxColor, t);
 	}
 
-	private updateShadowLines(audioData: AudioData) {
+	// Each trail line takes over the one in front of it, so the trail keeps
+	// the widths and colours the line had at the time
+	private updateShadowLines() {
+		if (this.shadowLines.length === 0) return;
+
 		for (let i = this.shadowLines.length - 1; i > 0; i--) {
-			this.shadowLines[i].geometry.setAttribute(
-				"position",
-				this.shadowLines[i - 1].geometry.getAttribute("position").clone(),
-			);
+			this.shadowLines[i].copyLine(this.shadowLines[i - 1]);
 		}
-		this.shadowLines[0].geometry.setAttribute(
-			"position",
-			this.geometry.getAttribute("position").clone(),
-		);
-
-		const color = this.computeColor(audioData);
+		this.shadowLines[0].copyLine(this.line);
 
 		this.shadowLines.forEach((line, index) => {
-			const material = line.material as THREE.LineBasicMaterial;
-
-			material.color.set(color);
-			material.opacity =
+			line.opacity =
 				this.params.shadowOpacity * (1 - index / this.params.numShadowLines);
+			line.update();
 		});
 	}
 
 	private initShadowLines() {
 		for (let i = 0; i < this.params.numShadowLines; i++) {
-			const geometry = new THREE.BufferGeometry();
-			geometry.setAttribute(
-				"position",
-				new THREE.BufferAttribute(new Float32Array(this.positions), 3),
-			);
-
-			const material = new THREE.LineBasicMaterial({
-				color: this.material.color,
-				opacity:
-					this.params.shadowOpacity * (1 - i / this.params.numShadowLines),
-				transparent: true,
-			});
+			this.addShadowLine(this.line);
+		}
+	}
 
-			const shadowLine = new THREE.Line(geometry, material);
-			this.shadowLines.push(shadowLine);
-			this.scene.add(shadowLine);
+	// Adds or trims trail lines, keeping the ones that are already there
+	private resizeShadowLines() {
+		while (this.shadowLines.length > this.params.numShadowLines) {
+			this.removeShadowLine(this.shadowLines.pop() as ThickLine);
+		}
+		while (this.shadowLines.length < this.params.numShadowLines) {
+			const last = this.shadowLines[this.shadowLines.length - 1];
+			this.addShadowLine(last ?? this.line);
 		}
 	}
+
+	private addShadowLine(source: ThickLine) {
+		const i = this.shadowLines.length;
+		const shadowLine = new ThickLine(source.pointCount);
+
+		shadowLine.copyLine(source);
+		shadowLine.opacity =
+			this.params.shadowOpacity * (1 - i / this.params.numShadowLines);
+		shadowLine.update();
+
+		this.shadowLines.push(shadowLine);
+		this.scene.add(shadowLine);
+	}
+
+	private removeShadowLine(shadowLine: ThickLine) {
+		this.scene.remove(shadowLine);
+		shadowLine.dispose();
+	}
+}
+
+// Linearly resamples `source` onto however many values `target` has
+function resample(source: Float32Array, target: Float32Array) {
+	for (let i = 0; i < target.length; i++) {
+		const t =
+			target.length > 1 ? (i / (target.length - 1)) * (source.length - 1) : 0;
+		const a = Math.floor(t);
+		const b = Math.min(a + 1, source.length - 1);
+		const f = t - a;
+
+		target[i] = source[a] * (1 - f) + source[b] * f;
+	}
 }
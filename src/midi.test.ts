@@ -0,0 +1,267 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type MidiMessage,
+	type MidiTarget,
+	MidiClock,
+	MidiMapper,
+	listenToInputs,
+	parseBindings,
+	parseMessage,
+} from "./midi";
+import { MemoryStorage } from "./test-helpers";
+import type { BeatData } from "./types";
+
+// An input that can be made to send messages
+class FakeInput extends EventTarget {
+	send(data: number[], timeStamp = 0) {
+		const event = new Event("midimessage");
+		Object.assign(event, { data: new Uint8Array(data) });
+		Object.defineProperty(event, "timeStamp", { value: timeStamp });
+		this.dispatchEvent(event);
+	}
+}
+
+class FakeAccess extends EventTarget {
+	inputs = new Map<string, FakeInput>();
+
+	plugIn(id: string) {
+		const input = new FakeInput();
+		this.inputs.set(id, input);
+		this.dispatchEvent(new Event("statechange"));
+		return input;
+	}
+}
+
+function numberTarget(path: string, value: number, min = 0, max = 1) {
+	const target: MidiTarget = {
+		path,
+		kind: "number",
+		min,
+		max,
+		options: [],
+		getValue: () => value,
+		setValue: (next) => {
+			value = next as number;
+		},
+	};
+	return target;
+}
+
+function cc(number: number, value: number, channel = 1): MidiMessage {
+	return { type: "cc", channel, number, value };
+}
+
+describe("parseMessage", () => {
+	test("reads control changes and notes with 1-based channels", () => {
+		expect(parseMessage(new Uint8Array([0xb0, 7, 100]))).toEqual(cc(7, 100));
+		expect(parseMessage(new Uint8Array([0x99, 36, 90]))).toEqual({
+			type: "noteon",
+			channel: 10,
+			number: 36,
+			value: 90,
+		});
+	});
+
+	test("treats note on at zero velocity as note off", () => {
+		expect(parseMessage(new Uint8Array([0x90, 60, 0]))?.type).toBe("noteoff");
+	});
+
+	test("reads clock messages and skips the rest", () => {
+		expect(parseMessage(new Uint8Array([0xf8]))?.type).toBe("clock");
+		expect(parseMessage(new Uint8Array([0xfa]))?.type).toBe("start");
+		expect(parseMessage(new Uint8Array([0xe0, 0, 64]))).toBeUndefined();
+	});
+});
+
+describe("MidiMapper", () => {
+	test("binds the next control to move while learning and saves it", () => {
+		const storage = new MemoryStorage();
+		const tension = numberTarget("main/line/tension", 300, 0, 1000);
+		const mapper = new MidiMapper(() => [tension], storage);
+
+		mapper.learning = tension;
+		mapper.handle(cc(7, 20));
+
+		expect(mapper.learning).toBeUndefined();
+		expect(mapper.bindings).toEqual([
+			{ control: "cc/1/7", path: "main/line/tension", min: 0, max: 1000 },
+		]);
+		expect(new MidiMapper(() => [], storage).bindings).toEqual(
+			mapper.bindings,
+		);
+	});
+
+	test("maps the knob onto the binding's range", () => {
+		const damping = numberTarget("main/line/damping", 0.5);
+		const mapper = new MidiMapper(() => [damping], new MemoryStorage());
+		mapper.softTakeover = false;
+		mapper.bind("cc/1/1", damping).min = 0.2;
+
+		mapper.handle(cc(1, 127));
+		expect(damping.getValue()).toBeCloseTo(1);
+		mapper.handle(cc(1, 0));
+		expect(damping.getValue()).toBeCloseTo(0.2);
+	});
+
+	test("waits for the knob to reach the value with soft takeover", () => {
+		const excitability = numberTarget("main/line/excitability", 0.5);
+		const mapper = new MidiMapper(() => [excitability], new MemoryStorage());
+		mapper.bind("cc/1/2", excitability);
+
+		mapper.handle(cc(2, 10));
+		mapper.handle(cc(2, 30));
+		expect(excitability.getValue()).toBe(0.5);
+
+		// Passing the value picks it up
+		mapper.handle(cc(2, 80));
+		expect(excitability.getValue()).toBeCloseTo(80 / 127);
+		mapper.handle(cc(2, 20));
+		expect(excitability.getValue()).toBeCloseTo(20 / 127);
+
+		// Set elsewhere, the knob has to catch up again
+		excitability.setValue(0.9);
+		mapper.handle(cc(2, 40));
+		expect(excitability.getValue()).toBe(0.9);
+	});
+
+	test("snaps to the step and steps options with pads", () => {
+		const points = numberTarget("main/line/numPoints", 10, 10, 1000);
+		points.step = 1;
+		let vslzr = "line";
+		const switcher: MidiTarget = {
+			path: "player/vslzr",
+			kind: "option",
+			min: 0,
+			max: 1,
+			options: ["line", "wave", "spectrum"],
+			getValue: () => vslzr,
+			setValue: (value) => {
+				vslzr = value as string;
+			},
+		};
+		const mapper = new MidiMapper(
+			() => [points, switcher],
+			new MemoryStorage(),
+		);
+		mapper.softTakeover = false;
+		mapper.bind("cc/1/3", points);
+		mapper.bind("note/1/36", switcher);
+
+		mapper.handle(cc(3, 64));
+		expect(Number.isInteger(points.getValue())).toBe(true);
+
+		const pad = { type: "noteon", channel: 1, number: 36, value: 100 };
+		mapper.handle(pad as MidiMessage);
+		expect(vslzr).toBe("wave");
+		mapper.handle(pad as MidiMessage);
+		mapper.handle(pad as MidiMessage);
+		expect(vslzr).toBe("line");
+	});
+
+	test("leaves bindings for other visualizers alone", () => {
+		const mapper = new MidiMapper(() => [], new MemoryStorage());
+		mapper.bind("cc/1/4", numberTarget("layer 2/wave/waveSpeed", 10));
+
+		expect(() => mapper.handle(cc(4, 64))).not.toThrow();
+	});
+
+	test("binds without storage, or with storage that's full", () => {
+		const full = new MemoryStorage();
+		full.setItem = () => {
+			throw new DOMException("", "QuotaExceededError");
+		};
+		const error = console.error;
+		console.error = () => {};
+
+		for (const storage of [full, undefined]) {
+			const mapper = new MidiMapper(() => [], storage);
+			mapper.bind("cc/1/4", numberTarget("layer 2/wave/waveSpeed", 10));
+			expect(mapper.bindings).toHaveLength(1);
+		}
+		console.error = error;
+	});
+});
+
+describe("parseBindings", () => {
+	test("drops malformed entries", () => {
+		const good = { control: "cc/1/7", path: "a/b", min: 0, max: 1 };
+
+		expect(parseBindings([good, { control: "cc/1/8" }, null])).toEqual([
+			good,
+		]);
+		expect(parseBindings("nope")).toEqual([]);
+	});
+});
+
+describe("MidiClock", () => {
+	function beatData(): BeatData {
+		return { isBeat: false, onsets: [], bpm: 0, phase: 0, pulse: 0 };
+	}
+
+	// Pulses at `bpm` from `from` ms, returning the time after the last
+	function pulse(clock: MidiClock, bpm: number, count: number, from = 0) {
+		const interval = 60000 / bpm / 24;
+		for (let i = 0; i < count; i++) {
+			clock.message("clock", from + i * interval);
+		}
+		return from + (count - 1) * interval;
+	}
+
+	test("follows the tempo and puts beats on every 24th pulse", () => {
+		const clock = new MidiClock();
+		const beat = beatData();
+		clock.message("start", 0);
+
+		let time = pulse(clock, 120, 1);
+		expect(clock.apply(beat, time, 6)).toBe(true);
+		expect(beat.isBeat).toBe(true);
+
+		time = pulse(clock, 120, 12, time + 60000 / 120 / 24);
+		clock.apply(beat, time, 6);
+		expect(beat.isBeat).toBe(false);
+		expect(beat.bpm).toBeCloseTo(120);
+		expect(beat.phase).toBeCloseTo(0.5, 1);
+		expect(beat.pulse).toBeLessThan(1);
+
+		time = pulse(clock, 120, 12, time + 60000 / 120 / 24);
+		clock.apply(beat, time, 6);
+		expect(beat.isBeat).toBe(true);
+		expect(beat.pulse).toBe(1);
+	});
+
+	test("stops driving the beat when stopped or silent", () => {
+		const clock = new MidiClock();
+		const beat = beatData();
+		const time = pulse(clock, 120, 24);
+
+		expect(clock.apply(beat, time + 1000, 6)).toBe(false);
+
+		pulse(clock, 120, 2, 2000);
+		clock.message("stop", 2030);
+		expect(clock.apply(beat, 2040, 6)).toBe(false);
+		expect(beat.isBeat).toBe(false);
+	});
+});
+
+describe("listenToInputs", () => {
+	test("hears inputs that are there and ones plugged in later", () => {
+		const access = new FakeAccess();
+		const first = access.plugIn("a");
+		const received: number[][] = [];
+		const stop = listenToInputs(
+			access as unknown as MIDIAccess,
+			(data, time) => received.push([...data, time]),
+		);
+
+		first.send([0xb0, 1, 2], 5);
+		access.plugIn("b").send([0xf8], 6);
+		expect(received).toEqual([
+			[0xb0, 1, 2, 5],
+			[0xf8, 6],
+		]);
+
+		stop();
+		first.send([0xb0, 1, 3]);
+		expect(received).toHaveLength(2);
+	});
+});
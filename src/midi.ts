@@ -0,0 +1,682 @@
+import { type Controller, type GUI, OptionController } from "lil-gui";
+import { isParams } from "./morph";
+import { browserStorage } from "./storage";
+import type { BeatData, ParamRange, ParamScope, Params } from "./types";
+
+const storageKey = "vslzr.midi";
+// A knob picks up its parameter once it comes this close, as a fraction of
+// the range
+const pickupRange = 0.03;
+// Clock pulses per quarter note
+const pulsesPerBeat = 24;
+// The clock counts as stopped when no pulse came for this long, in ms
+const clockTimeout = 500;
+
+export interface MidiMessage {
+	type: "cc" | "noteon" | "noteoff" | "clock" | "start" | "continue" | "stop";
+	// 1-16, 0 for clock messages
+	channel: number;
+	// Controller or note number
+	number: number;
+	// 0-127, the velocity for notes
+	value: number;
+}
+
+const realtime: Record<number, MidiMessage["type"]> = {
+	0xf8: "clock",
+	0xfa: "start",
+	0xfb: "continue",
+	0xfc: "stop",
+};
+
+// The messages this app cares about, undefined for anything else
+export function parseMessage(data: Uint8Array): MidiMessage | undefined {
+	const status = data[0];
+	if (status === undefined) return;
+
+	if (realtime[status]) {
+		return { type: realtime[status], channel: 0, number: 0, value: 0 };
+	}
+
+	const channel = (status & 0x0f) + 1;
+	const number = data[1] ?? 0;
+	const value = data[2] ?? 0;
+
+	switch (status & 0xf0) {
+		case 0xb0:
+			return { type: "cc", channel, number, value };
+		case 0x90:
+			// Note on at zero velocity is how many devices send note off
+			return {
+				type: value > 0 ? "noteon" : "noteoff",
+				channel,
+				number,
+				value,
+			};
+		case 0x80:
+			return { type: "noteoff", channel, number, value };
+	}
+}
+
+// Identifies a knob or pad, e.g. "cc/1/7" or "note/10/36"
+export function controlKey({ type, channel, number }: MidiMessage) {
+	return `${type === "cc" ? "cc" : "note"}/${channel}/${number}`;
+}
+
+// "CC 7 (ch 1)" for "cc/1/7"
+export function describeControl(control: string) {
+	const [type, channel, number] = control.split("/");
+	return `${type === "cc" ? "CC" : "Note"} ${number} (ch ${channel})`;
+}
+
+export interface MidiBinding {
+	control: string;
+	// Scope key and param path of the target, e.g. "main/line/tension"
+	path: string;
+	// The range a knob sweeps, in the parameter's own units. Only used for
+	// numbers, and may run backwards.
+	min: number;
+	max: number;
+}
+
+// Reads bindings from storage, dropping anything malformed
+export function parseBindings(value: unknown): MidiBinding[] {
+	if (!Array.isArray(value)) return [];
+
+	return value.filter(
+		(binding): binding is MidiBinding =>
+			typeof binding?.control === "string" &&
+			typeof binding.path === "string" &&
+			typeof binding.min === "number" &&
+			typeof binding.max === "number",
+	);
+}
+
+// Something a binding can drive, read off a GUI controller. Numbers and
+// options take a position and booleans toggle.
+export interface MidiTarget {
+	path: string;
+	kind: "number" | "option" | "boolean";
+	min: number;
+	max: number;
+	step?: number;
+	options: unknown[];
+	getValue(): unknown;
+	setValue(value: unknown): void;
+}
+
+// Drives `controller` as a binding target at `path`. Numbers need the
+// `range` their params declared, as lil-gui keeps its own to itself.
+// Options are driven through their select, whose entries are the option
+// names.
+export function toTarget(
+	controller: Controller,
+	path: string,
+	range?: ParamRange,
+): MidiTarget | undefined {
+	const base = {
+		path,
+		min: 0,
+		max: 1,
+		options: [],
+		getValue: () => controller.getValue(),
+		setValue: (value: unknown) => controller.setValue(value),
+	};
+
+	if (controller instanceof OptionController) {
+		const select = controller.$select;
+		const options = Array.from(select.options, (option) => option.text);
+		return {
+			...base,
+			kind: "option",
+			options,
+			getValue: () => {
+				controller.updateDisplay();
+				return options[select.selectedIndex];
+			},
+			setValue: (name) => {
+				select.selectedIndex = options.indexOf(name as string);
+				select.dispatchEvent(new Event("change"));
+			},
+		};
+	}
+
+	const value = controller.getValue();
+	if (typeof value === "number" && range) {
+		return { ...base, kind: "number", ...range };
+	}
+	if (typeof value === "boolean") {
+		return { ...base, kind: "boolean" };
+	}
+}
+
+// Every object in `params`, nested ones included, with its path prefix
+function paramObjects(
+	params: Params,
+	prefix = "",
+	out = new Map<object, string>(),
+) {
+	out.set(params, prefix);
+	for (const [key, value] of Object.entries(params)) {
+		if (isParams(value)) paramObjects(value, `${prefix}${key}.`, out);
+	}
+
+	return out;
+}
+
+interface TakeoverState {
+	// Whether the knob has caught up with the parameter
+	picked: boolean;
+	// The knob's last position, 0-1
+	last?: number;
+	// What the binding last set, to tell when something else changed it
+	set?: unknown;
+}
+
+// Turns control changes into parameter changes through the bindings, and
+// binds the next control that moves while learning. Bindings are saved to
+// `storage` whenever they change, when there is any.
+export class MidiMapper {
+	public bindings: MidiBinding[];
+	// Knobs leave their parameter alone until they reach its value, so it
+	// doesn't jump when the knob was somewhere else
+	public softTakeover = true;
+	// Bound to the next control that moves
+	public learning?: MidiTarget;
+	public onBind?: (binding: MidiBinding) => void;
+
+	private state = new WeakMap<MidiBinding, TakeoverState>();
+
+	constructor(
+		private targets: () => MidiTarget[],
+		private storage = browserStorage(),
+	) {
+		this.bindings = this.read();
+	}
+
+	handle(message: MidiMessage) {
+		if (message.type !== "cc" && message.type !== "noteon") return;
+
+		const control = controlKey(message);
+		if (this.learning) {
+			this.bind(control, this.learning);
+			return;
+		}
+
+		for (const binding of this.bindings) {
+			if (binding.control !== control) continue;
+
+			const target = this.targets().find((t) => t.path === binding.path);
+			if (target) {
+				this.drive(binding, target, message);
+			}
+		}
+	}
+
+	// Replaces whatever `control` was bound to
+	bind(control: string, target: MidiTarget) {
+		const binding = {
+			control,
+			path: target.path,
+			min: target.min,
+			max: target.max,
+		};
+
+		this.bindings = this.bindings.filter((b) => b.control !== control);
+		this.bindings.push(binding);
+		this.learning = undefined;
+		this.save();
+		this.onBind?.(binding);
+
+		return binding;
+	}
+
+	remove(binding: MidiBinding) {
+		this.bindings = this.bindings.filter((b) => b !== binding);
+		this.save();
+	}
+
+	save() {
+		// Full or blocked storage only loses the bindings on reload
+		try {
+			this.storage?.setItem(storageKey, JSON.stringify(this.bindings));
+		} catch (error) {
+			console.error("Error saving MIDI bindings:", error);
+		}
+	}
+
+	private read() {
+		try {
+			const stored = this.storage?.getItem(storageKey) ?? "[]";
+			return parseBindings(JSON.parse(stored));
+		} catch {
+			return [];
+		}
+	}
+
+	private drive(
+		binding: MidiBinding,
+		target: MidiTarget,
+		message: MidiMessage,
+	) {
+		const state = this.state.get(binding) ?? { picked: false };
+		this.state.set(binding, state);
+
+		const note = message.type === "noteon";
+		const level = message.value / 127;
+
+		switch (target.kind) {
+			case "number": {
+				// Pads jump straight to their velocity
+				const picked =
+					note ||
+					!this.softTakeover ||
+					pickUp(binding, target, state, level);
+				if (!picked) break;
+
+				const value = binding.min + level * (binding.max - binding.min);
+				const { step } = target;
+				target.setValue(step ? Math.round(value / step) * step : value);
+				state.set = target.getValue();
+				break;
+			}
+			case "option": {
+				const { options } = target;
+				// Pads step through the options, knobs sweep across them
+				const last = options.length - 1;
+				const index = note
+					? (options.indexOf(target.getValue()) + 1) % options.length
+					: Math.min(Math.floor(level * options.length), last);
+				if (options.length > 0 && options[index] !== target.getValue()) {
+					target.setValue(options[index]);
+				}
+				break;
+			}
+			case "boolean": {
+				const value = note ? !target.getValue() : level >= 0.5;
+				if (value !== target.getValue()) {
+					target.setValue(value);
+				}
+				break;
+			}
+		}
+
+		state.last = level;
+	}
+}
+
+// Soft takeover: true once the knob has met the parameter's value, either
+// landing close to it or moving past it
+function pickUp(
+	binding: MidiBinding,
+	target: MidiTarget,
+	state: TakeoverState,
+	level: number,
+) {
+	const current = target.getValue() as number;
+
+	// Changed from the GUI or a preset since, so it has to be met again
+	if (state.set !== undefined && current !== state.set) {
+		state.picked = false;
+		state.set = undefined;
+	}
+	if (!state.picked) {
+		const span = binding.max - binding.min;
+		const position = span !== 0 ? (current - binding.min) / span : 0;
+		const crossed =
+			state.last !== undefined &&
+			(state.last - position) * (level - position) <= 0;
+
+		state.picked = crossed || Math.abs(level - position) <= pickupRange;
+	}
+
+	return state.picked;
+}
+
+// Follows MIDI clock: 24 pulses a beat, with start putting the next pulse
+// on the downbeat. Times are in milliseconds.
+export class MidiClock {
+	private pulses = -1;
+	private lastPulse = Number.NEGATIVE_INFINITY;
+	// Smoothed time between pulses
+	private interval = 0;
+	private stopped = false;
+	private lastBeat = -1;
+	private pulse = 0;
+	private lastApplied?: number;
+
+	message(type: MidiMessage["type"], time: number) {
+		switch (type) {
+			case "start":
+				this.pulses = -1;
+				this.lastBeat = -1;
+				this.stopped = false;
+				break;
+			case "continue":
+				this.stopped = false;
+				break;
+			case "stop":
+				this.stopped = true;
+				break;
+			case "clock": {
+				const gap = time - this.lastPulse;
+				if (gap < clockTimeout) {
+					this.interval = this.interval
+						? this.interval * 0.9 + gap * 0.1
+						: gap;
+				}
+				this.lastPulse = time;
+				this.pulses++;
+				break;
+			}
+		}
+	}
+
+	active(now: number) {
+		return !this.stopped && now - this.lastPulse < clockTimeout;
+	}
+
+	get bpm() {
+		return this.interval > 0 ? 60000 / (this.interval * pulsesPerBeat) : 0;
+	}
+
+	// 0 on the beat, rising towards 1, carried on between pulses
+	phase(now: number) {
+		const pulses = Math.max(this.pulses, 0);
+		const between =
+			this.interval > 0
+				? Math.min((now - this.lastPulse) / this.interval, 0.999)
+				: 0;
+
+		return ((pulses % pulsesPerBeat) + between) / pulsesPerBeat;
+	}
+
+	// Puts the clock's beats, tempo and phase into `beat`. Leaves it alone
+	// and returns false while the clock isn't running.
+	apply(beat: BeatData, now: number, pulseDecay: number) {
+		const delta =
+			this.lastApplied === undefined ? 0 : (now - this.lastApplied) / 1000;
+		this.lastApplied = now;
+
+		if (!this.active(now)) return false;
+
+		const index = Math.floor(Math.max(this.pulses, 0) / pulsesPerBeat);
+		const isBeat = this.pulses >= 0 && index !== this.lastBeat;
+		this.lastBeat = index;
+		this.pulse = isBeat ? 1 : this.pulse * Math.exp(-pulseDecay * delta);
+
+		beat.isBeat = isBeat;
+		beat.bpm = this.bpm;
+		beat.phase = this.phase(now);
+		beat.pulse = this.pulse;
+
+		return true;
+	}
+}
+
+// Listens to every input on `access`, including ones plugged in later.
+// Returns a function that stops listening.
+export function listenToInputs(
+	access: MIDIAccess,
+	onMessage: (data: Uint8Array, time: number) => void,
+) {
+	const listening = new Set<MIDIInput>();
+	const listener = (event: Event) => {
+		const { data, timeStamp } = event as MIDIMessageEvent;
+		if (data) onMessage(data, timeStamp);
+	};
+	const attach = () => {
+		access.inputs.forEach((input) => {
+			if (listening.has(input)) return;
+			input.addEventListener("midimessage", listener);
+			listening.add(input);
+		});
+	};
+
+	attach();
+	access.addEventListener("statechange", attach);
+
+	return () => {
+		access.removeEventListener("statechange", attach);
+		for (const input of listening) {
+			input.removeEventListener("midimessage", listener);
+		}
+		listening.clear();
+	};
+}
+
+// The MIDI GUI folder. With learn on, clicking a controller and then moving
+// a knob or pad binds the two. Controllers of the params in `scopes` can be
+// bound.
+export class MidiManager {
+	public readonly mapper: MidiMapper;
+	public readonly clock = new MidiClock();
+
+	private settings = {
+		learn: false,
+		softTakeover: true,
+		// Lets MIDI clock drive the beat, tempo and phase while it runs
+		clock: true,
+		status: "Not connected",
+	};
+	// Shown as the status when not learning
+	private connection = "Not connected";
+	private folder: GUI;
+	private mappings: GUI;
+	private bindingFolders = new Map<MidiBinding, GUI>();
+	private highlighted?: HTMLElement;
+	private stopListening?: () => void;
+
+	constructor(
+		private gui: GUI,
+		private scopes: () => ParamScope[],
+		storage?: Storage,
+	) {
+		this.mapper = new MidiMapper(() => this.targets(), storage);
+		this.mapper.onBind = (binding) => {
+			this.highlight(undefined);
+			this.buildFolder(binding);
+			this.settings.status = `Bound ${describeControl(binding.control)}`;
+		};
+
+		const folder = gui.addFolder("MIDI");
+		this.folder = folder;
+
+		folder.add(this, "connect").name("Connect");
+		folder
+			.add(this.settings, "learn")
+			.name("Learn")
+			.onChange((learn: boolean) => this.setLearning(learn));
+		folder
+			.add(this.settings, "softTakeover")
+			.name("Soft takeover")
+			.onChange((on: boolean) => {
+				this.mapper.softTakeover = on;
+			});
+		folder.add(this.settings, "clock").name("Clock drives beat");
+		folder.add(this.settings, "status").name("Status").disable().listen();
+		this.mappings = folder.addFolder("Mappings");
+		for (const binding of this.mapper.bindings) {
+			this.buildFolder(binding);
+		}
+		folder.close();
+
+		gui.domElement.addEventListener("pointerdown", this.onPointerDown, true);
+		gui.domElement.addEventListener("click", this.onClick, true);
+		this.connectIfAllowed();
+	}
+
+	// Asks for MIDI access and starts listening to every input
+	async connect() {
+		if (this.stopListening) return;
+
+		try {
+			const access = await navigator.requestMIDIAccess();
+			const stopInputs = listenToInputs(access, (data, time) =>
+				this.onMessage(data, time),
+			);
+			const showInputs = () => {
+				let count = 0;
+				access.inputs.forEach(() => count++);
+				this.connection = `${count} input(s)`;
+				this.settings.status = this.connection;
+			};
+			showInputs();
+			access.addEventListener("statechange", showInputs);
+			this.stopListening = () => {
+				stopInputs();
+				access.removeEventListener("statechange", showInputs);
+			};
+		} catch (error) {
+			console.error("Error accessing MIDI:", error);
+			this.connection = "Unavailable";
+			this.settings.status = this.connection;
+		}
+	}
+
+	// Call once per frame with the analysed beat
+	applyClock(beat: BeatData, pulseDecay: number) {
+		if (this.settings.clock) {
+			this.clock.apply(beat, performance.now(), pulseDecay);
+		}
+	}
+
+	dispose() {
+		this.stopListening?.();
+		this.stopListening = undefined;
+		this.gui.domElement.removeEventListener(
+			"pointerdown",
+			this.onPointerDown,
+			true,
+		);
+		this.gui.domElement.removeEventListener("click", this.onClick, true);
+		this.folder.destroy();
+	}
+
+	private onMessage(data: Uint8Array, time: number) {
+		const message = parseMessage(data);
+		if (!message) return;
+
+		if (message.channel === 0) {
+			this.clock.message(message.type, time);
+		} else {
+			this.mapper.handle(message);
+		}
+	}
+
+	private targets() {
+		return this.controllerTargets().map(({ target }) => target);
+	}
+
+	// The controllers of params in the scopes, with what a binding drives
+	private controllerTargets() {
+		const found: { controller: Controller; target: MidiTarget }[] = [];
+		const controllers = this.gui.controllersRecursive();
+
+		for (const { key, params, ranges } of this.scopes()) {
+			const objects = paramObjects(params);
+			for (const controller of controllers) {
+				const prefix = objects.get(controller.object);
+				if (prefix === undefined) continue;
+
+				const path = prefix + controller.property;
+				const target = toTarget(controller, `${key}/${path}`, ranges[path]);
+				if (target) found.push({ controller, target });
+			}
+		}
+
+		return found;
+	}
+
+	private setLearning(learn: boolean) {
+		this.mapper.learning = undefined;
+		this.highlight(undefined);
+		this.settings.status = learn ? "Click a control" : this.connection;
+	}
+
+	// The controller under `event` that learning would bind, if any
+	private learnable(event: Event) {
+		if (!this.settings.learn) return;
+
+		const element = event.target as Node;
+		return this.controllerTargets().find(({ controller }) =>
+			controller.domElement.contains(element),
+		);
+	}
+
+	// Picks the clicked controller to bind while learning. The press is
+	// kept from the controller, so picking it doesn't change it too.
+	private onPointerDown = (event: PointerEvent) => {
+		const learnable = this.learnable(event);
+		if (!learnable) return;
+
+		event.preventDefault();
+		event.stopPropagation();
+
+		const { controller, target } = learnable;
+		this.mapper.learning = target;
+		this.highlight(controller.domElement);
+		this.settings.status = `Move a knob for ${controller.$name.textContent}`;
+	};
+
+	// The click that follows, which would toggle checkboxes and buttons
+	private onClick = (event: MouseEvent) => {
+		if (!this.learnable(event)) return;
+
+		event.preventDefault();
+		event.stopPropagation();
+	};
+
+	private highlight(element: HTMLElement | undefined) {
+		this.highlighted?.classList.remove("midiLearn");
+		element?.classList.add("midiLearn");
+		this.highlighted = element;
+	}
+
+	private buildFolder(binding: MidiBinding) {
+		// Rebinding a control replaces its old binding
+		for (const [other, folder] of this.bindingFolders) {
+			if (!this.mapper.bindings.includes(other)) {
+				folder.destroy();
+				this.bindingFolders.delete(other);
+			}
+		}
+
+		const folder = this.mappings.addFolder(
+			`${describeControl(binding.control)} → ${binding.path}`,
+		);
+		this.bindingFolders.set(binding, folder);
+
+		folder
+			.add(binding, "min")
+			.name("Min")
+			.onChange(() => this.mapper.save());
+		folder
+			.add(binding, "max")
+			.name("Max")
+			.onChange(() => this.mapper.save());
+		folder
+			.add({ remove: () => this.removeBinding(binding) }, "remove")
+			.name("Remove");
+	}
+
+	private removeBinding(binding: MidiBinding) {
+		this.mapper.remove(binding);
+		this.bindingFolders.get(binding)?.destroy();
+		this.bindingFolders.delete(binding);
+	}
+
+	// Reconnects without asking where access was granted before
+	private async connectIfAllowed() {
+		try {
+			const status = await navigator.permissions.query({
+				name: "midi" as PermissionName,
+			});
+			if (status.state === "granted") {
+				this.connect();
+			}
+		} catch {
+			// Not every browser can query MIDI access, connecting will ask
+		}
+	}
+}
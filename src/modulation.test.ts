@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { AudioAnalyser } from "./analysis";
+import {
+	ModulationMatrix,
+	type Route,
+	createRoute,
+	findTargets,
+	follow,
+	parseRoutes,
+	shape,
+} from "./modulation";
+
+const silence = new AudioAnalyser().analyze(new Uint8Array(1024), 44100);
+const loud = { ...silence, low: 1, rms: 0.5 };
+
+function route(overrides: Partial<Route>): Route {
+	return {
+		...createRoute({ path: "amplitude", min: 0, max: 2 }),
+		attack: 0,
+		release: 0,
+		...overrides,
+	};
+}
+
+describe("envelope", () => {
+	test("shape clamps and curves the level", () => {
+		expect(shape(4, 1)).toBe(1);
+		expect(shape(-1, 1)).toBe(0);
+		expect(shape(0.5, 2)).toBe(0.25);
+	});
+
+	test("follow rises with attack and falls with release", () => {
+		expect(follow(0, 1, 0, 1, 1 / 60)).toBe(1);
+
+		const rising = follow(0, 1, 0.1, 1, 0.1);
+		expect(rising).toBeCloseTo(1 - Math.exp(-1));
+
+		const falling = follow(1, 0, 0.1, 1, 0.1);
+		expect(falling).toBeGreaterThan(rising);
+	});
+});
+
+describe("ModulationMatrix", () => {
+	test("modulates during the update and restores afterwards", () => {
+		const params = { amplitude: 1, colorRange: { min: "#000000" } };
+		const matrix = new ModulationMatrix();
+		matrix.routes.push(route({ depth: 0.25 }));
+
+		matrix.apply(params, loud, 1 / 60);
+		// A quarter of the 0..2 range at full level
+		expect(params.amplitude).toBe(1.5);
+
+		matrix.restore();
+		expect(params.amplitude).toBe(1);
+	});
+
+	test("clamps to the route's range and follows nested paths", () => {
+		const params = { line: { width: 3 } };
+		const matrix = new ModulationMatrix();
+		matrix.routes.push(
+			route({ target: "line.width", min: 0, max: 4, depth: 1 }),
+			route({ target: "line.width", source: "rms", depth: -0.5, max: 4 }),
+		);
+
+		matrix.apply(params, loud, 1 / 60);
+		// +4 clamps to 4, then -0.5 * 0.5 * 4 = -1
+		expect(params.line.width).toBe(3);
+
+		matrix.apply(params, silence, 1 / 60);
+		expect(params.line.width).toBe(3);
+	});
+
+	test("snaps stepped params like counts", () => {
+		const params = { numPoints: 100 };
+		const matrix = new ModulationMatrix();
+		matrix.ranges = { numPoints: { min: 10, max: 1000, step: 1 } };
+		matrix.routes.push(
+			route({ target: "numPoints", min: 10, max: 1000, depth: 0.01 }),
+		);
+
+		matrix.apply(params, loud, 1 / 60);
+		// 100 + 0.01 * 990 rounds to 110
+		expect(params.numPoints).toBe(110);
+	});
+
+	test("skips disabled routes and unknown targets", () => {
+		const params = { amplitude: 1 };
+		const matrix = new ModulationMatrix();
+		matrix.routes.push(
+			route({ enabled: false }),
+			route({ target: "missing", depth: 1 }),
+		);
+
+		matrix.apply(params, loud, 1 / 60);
+		expect(params.amplitude).toBe(1);
+	});
+
+	test("runs the LFO at the route's rate", () => {
+		const params = { amplitude: 0 };
+		const matrix = new ModulationMatrix();
+		matrix.routes.push(route({ source: "lfo", rate: 1, depth: 0.5 }));
+
+		// Half a cycle in, the LFO is at the top
+		matrix.apply(params, silence, 0.5);
+		expect(params.amplitude).toBeCloseTo(1);
+		matrix.apply(params, silence, 0.5);
+		expect(params.amplitude).toBeCloseTo(0);
+	});
+});
+
+describe("parseRoutes", () => {
+	test("fills in missing fields and drops broken routes", () => {
+		const routes = parseRoutes([
+			{ target: "amplitude", source: "beat", depth: -1 },
+			{ target: 3 },
+			"nope",
+		]);
+
+		expect(routes).toHaveLength(1);
+		expect(routes[0].depth).toBe(-1);
+		expect(routes[0].curve).toBe(1);
+		expect(parseRoutes(undefined)).toEqual([]);
+	});
+});
+
+describe("findTargets", () => {
+	test("offers every param with a slider range", () => {
+		const ranges = {
+			amplitude: { min: 0, max: 2 },
+			numPoints: { min: 10, max: 1000, step: 1 },
+		};
+
+		expect(findTargets(ranges)).toEqual([
+			{ path: "amplitude", min: 0, max: 2 },
+			{ path: "numPoints", min: 10, max: 1000 },
+		]);
+	});
+});
@@ -0,0 +1,313 @@
+import type { GUI } from "lil-gui";
+import type { AudioData, ParamRanges, Params, Vslzr } from "./types";
+
+// Audio features a parameter can follow, roughly 0..1
+export const audioSources: Record<string, (audioData: AudioData) => number> = {
+	low: (audioData) => audioData.low,
+	mid: (audioData) => audioData.mid,
+	high: (audioData) => audioData.high,
+	rms: (audioData) => audioData.rms,
+	peak: (audioData) => audioData.peak,
+	beat: (audioData) => audioData.beat.pulse,
+	width: (audioData) => audioData.stereo.width,
+};
+
+// Sources a route can use. `band` reads one of the log bands picked by the
+// route's `band` index, `lfo` is a sine at the route's `rate`.
+export const routeSources = [...Object.keys(audioSources), "band", "lfo"];
+
+export interface Route {
+	target: string;
+	source: string;
+	enabled: boolean;
+	// Fraction of the range added at full level, negative to push down
+	depth: number;
+	// Exponent on the source level, above 1 favours peaks
+	curve: number;
+	// Envelope time constants in seconds
+	attack: number;
+	release: number;
+	// Limits on the modulated value, in the target's own units
+	min: number;
+	max: number;
+	band: number;
+	rate: number;
+}
+
+// A numeric param that can be modulated, with its slider range
+export interface Target {
+	path: string;
+	min: number;
+	max: number;
+}
+
+const defaultRoute: Omit<Route, "target" | "min" | "max"> = {
+	source: "low",
+	enabled: true,
+	depth: 0.5,
+	curve: 1,
+	attack: 0.01,
+	release: 0.2,
+	band: 0,
+	rate: 1,
+};
+
+export function createRoute(target: Target): Route {
+	return {
+		...defaultRoute,
+		target: target.path,
+		min: target.min,
+		max: target.max,
+	};
+}
+
+// Reads routes from a preset, filling in fields older presets don't have
+export function parseRoutes(value: unknown): Route[] {
+	if (!Array.isArray(value)) return [];
+
+	return value
+		.filter(
+			(route) =>
+				typeof route?.target === "string" && typeof route.source === "string",
+		)
+		.map((route) => {
+			const parsed: Route = {
+				...defaultRoute,
+				target: route.target,
+				source: route.source,
+				min: Number.NEGATIVE_INFINITY,
+				max: Number.POSITIVE_INFINITY,
+			};
+			for (const key of Object.keys(parsed) as (keyof Route)[]) {
+				if (typeof route[key] === typeof parsed[key]) {
+					(parsed as unknown as Record<string, unknown>)[key] = route[key];
+				}
+			}
+			return parsed;
+		});
+}
+
+// Level shaped by the route's curve, clamped to 0..1
+export function shape(level: number, curve: number) {
+	const clamped = Math.min(Math.max(level, 0), 1);
+	return Math.pow(clamped, Math.max(curve, 0.01));
+}
+
+// One-pole envelope follower, rising with `attack` and falling with `release`
+export function follow(
+	current: number,
+	target: number,
+	attack: number,
+	release: number,
+	delta: number,
+) {
+	const time = target > current ? attack : release;
+	if (time <= 0) return target;
+
+	return current + (target - current) * (1 - Math.exp(-delta / time));
+}
+
+// Resolves "a.b.c" to the object holding `c`, if it's a number
+function resolve(params: Params, path: string) {
+	const keys = path.split(".");
+	const key = keys.pop() as string;
+	let object: Params | undefined = params;
+
+	for (const part of keys) {
+		const next: unknown = object?.[part];
+		object = typeof next === "object" ? (next as Params) : undefined;
+	}
+
+	if (object && typeof object[key] === "number") {
+		return { object, key };
+	}
+}
+
+interface RouteState {
+	envelope: number;
+	phase: number;
+}
+
+// Pushes routed audio into params for the length of one update. `apply`
+// writes the modulated values and `restore` puts the set values back, so
+// the GUI and presets only ever see what the user chose.
+export class ModulationMatrix {
+	public routes: Route[] = [];
+	// Ranges of the params routed into, whose steps the values snap to
+	public ranges: ParamRanges = {};
+
+	private state = new WeakMap<Route, RouteState>();
+	private saved: { object: Params; key: string; value: number }[] = [];
+
+	apply(params: Params, audioData: AudioData, delta: number) {
+		this.restore();
+
+		for (const route of this.routes) {
+			const state = this.state.get(route) ?? { envelope: 0, phase: 0 };
+			this.state.set(route, state);
+
+			const level = this.level(route, state, audioData, delta);
+			state.envelope = follow(
+				state.envelope,
+				shape(level, route.curve),
+				route.attack,
+				route.release,
+				delta,
+			);
+
+			const found = resolve(params, route.target);
+			if (!route.enabled || !found) continue;
+
+			const { object, key } = found;
+			const value = object[key] as number;
+			if (!this.saved.some((s) => s.object === object && s.key === key)) {
+				this.saved.push({ object, key, value });
+			}
+
+			const span = Number.isFinite(route.max - route.min)
+				? route.max - route.min
+				: 1;
+			const modulated = value + route.depth * state.envelope * span;
+			const step = this.ranges[route.target]?.step;
+			const snapped = step ? Math.round(modulated / step) * step : modulated;
+			object[key] = Math.min(Math.max(snapped, route.min), route.max);
+		}
+	}
+
+	restore() {
+		for (const { object, key, value } of this.saved) {
+			object[key] = value;
+		}
+		this.saved = [];
+	}
+
+	private level(
+		route: Route,
+		state: RouteState,
+		audioData: AudioData,
+		delta: number,
+	) {
+		if (route.source === "lfo") {
+			state.phase = (state.phase + delta * route.rate) % 1;
+			return 0.5 - 0.5 * Math.cos(state.phase * Math.PI * 2);
+		}
+		if (route.source === "band") {
+			return audioData.bands[route.band] ?? 0;
+		}
+
+		return audioSources[route.source]?.(audioData) ?? 0;
+	}
+}
+
+// Every param with a slider range can be routed to
+export function findTargets(ranges: ParamRanges): Target[] {
+	return Object.entries(ranges).map(([path, { min, max }]) => ({
+		path,
+		min,
+		max,
+	}));
+}
+
+// The modulation GUI folder, one subfolder per route
+export class ModulationManager {
+	public matrix = new ModulationMatrix();
+
+	private folder: GUI;
+	private routeFolders = new Map<Route, GUI>();
+	private targets: Target[] = [];
+
+	constructor(gui: GUI) {
+		this.folder = gui.addFolder("Modulation");
+		this.folder.add(this, "addRoute").name("Add route");
+		this.folder.close();
+	}
+
+	get routes(): Route[] {
+		return this.matrix.routes;
+	}
+
+	// Call after the visualizer changes, its routes go with it
+	attach(vslzr: Vslzr | undefined) {
+		this.matrix.restore();
+		this.matrix.ranges = vslzr?.ranges ?? {};
+		this.targets = findTargets(this.matrix.ranges);
+		this.setRoutes([]);
+	}
+
+	setRoutes(routes: Route[]) {
+		for (const route of [...this.matrix.routes]) {
+			this.removeRoute(route);
+		}
+		for (const route of routes) {
+			this.matrix.routes.push(route);
+			this.buildFolder(route);
+		}
+	}
+
+	private addRoute() {
+		const target = this.targets[0];
+		if (!target) return;
+
+		const route = createRoute(target);
+		this.matrix.routes.push(route);
+		this.buildFolder(route);
+	}
+
+	private removeRoute(route: Route) {
+		this.matrix.restore();
+		this.matrix.routes = this.matrix.routes.filter((r) => r !== route);
+		this.routeFolders.get(route)?.destroy();
+		this.routeFolders.delete(route);
+	}
+
+	private buildFolder(route: Route) {
+		this.routeFolders.get(route)?.destroy();
+
+		const folder = this.folder.addFolder(title(route));
+		const target = this.targets.find((t) => t.path === route.target);
+		this.routeFolders.set(route, folder);
+
+		folder.add(route, "enabled").name("Enabled");
+		folder
+			.add(
+				route,
+				"target",
+				this.targets.map((t) => t.path),
+			)
+			.name("Target")
+			.onChange((path: string) => {
+				const next = this.targets.find((t) => t.path === path);
+				if (next) {
+					route.min = next.min;
+					route.max = next.max;
+				}
+				this.matrix.restore();
+				this.buildFolder(route);
+			});
+		folder
+			.add(route, "source", routeSources)
+			.name("Source")
+			.onChange(() => folder.title(title(route)));
+		folder.add(route, "depth", -1, 1).name("Depth");
+		folder.add(route, "curve", 0.25, 4).name("Curve");
+		folder.add(route, "attack", 0, 2).name("Attack (s)");
+		folder.add(route, "release", 0, 2).name("Release (s)");
+		const low = finite(target?.min);
+		const high = finite(target?.max);
+		folder.add(route, "min", low, high).name("Min");
+		folder.add(route, "max", low, high).name("Max");
+		folder.add(route, "band", 0, 63, 1).name("Band");
+		folder.add(route, "rate", 0.01, 10).name("LFO rate (Hz)");
+		folder
+			.add({ remove: () => this.removeRoute(route) }, "remove")
+			.name("Remove");
+	}
+}
+
+function title(route: Route) {
+	return `${route.source} → ${route.target}`;
+}
+
+function finite(value?: number) {
+	return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+import type { GUI } from "lil-gui";
+import { ParamMorph } from "./morph";
+
+const noControllers = { controllersRecursive: () => [] } as unknown as GUI;
+
+describe("ParamMorph", () => {
+	test("blends numbers and colours, then lands on the target", () => {
+		const params = {
+			amplitude: 0,
+			numPoints: 10,
+			colorRange: { min: "#000000" },
+		};
+		const morph = new ParamMorph();
+
+		morph.start(
+			params,
+			{ amplitude: 1, numPoints: 20, colorRange: { min: "#ffffff" } },
+			noControllers,
+			2,
+		);
+		morph.update(1);
+
+		expect(params.amplitude).toBeCloseTo(0.5);
+		expect(params.numPoints).toBe(15);
+		expect(params.colorRange.min).not.toBe("#000000");
+		expect(params.colorRange.min).not.toBe("#ffffff");
+
+		morph.update(1);
+
+		expect(params).toEqual({
+			amplitude: 1,
+			numPoints: 20,
+			colorRange: { min: "#ffffff" },
+		});
+		expect(morph.active).toBe(false);
+	});
+
+	test("snaps stepped params on the way", () => {
+		const params = { numPoints: 10 };
+		const morph = new ParamMorph();
+
+		morph.start(params, { numPoints: 20 }, noControllers, 3, {
+			numPoints: { min: 10, max: 1000, step: 1 },
+		});
+		morph.update(1);
+
+		expect(Number.isInteger(params.numPoints)).toBe(true);
+	});
+
+	test("applies right away without a duration and skips unknown keys", () => {
+		const params = { amplitude: 0 };
+
+		new ParamMorph().start(params, { amplitude: 1, gone: 2 }, noControllers, 0);
+
+		expect(params).toEqual({ amplitude: 1 });
+	});
+});
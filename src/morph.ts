@@ -0,0 +1,136 @@
+import type { Controller, GUI } from "lil-gui";
+import * as THREE from "three";
+import type { ParamRanges, ParamValue, Params } from "./types";
+
+const colorPattern = /^#[0-9a-f]{6}$/i;
+
+export function isParams(value: unknown): value is Params {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+interface Tween {
+	object: Params;
+	key: string;
+	from: ParamValue;
+	to: ParamValue;
+	controller?: Controller;
+	// Snapping for stepped params, like point counts
+	step?: number;
+}
+
+// Pairs every value in `values` with the matching entry in `target`.
+// Unknown keys and type mismatches are skipped so old presets keep loading.
+function collectTweens(
+	target: Params,
+	values: Params,
+	gui: GUI,
+	ranges: ParamRanges,
+) {
+	const tweens: Tween[] = [];
+	const controllers = gui.controllersRecursive();
+
+	const walk = (object: Params, source: Params, prefix: string) => {
+		for (const [key, to] of Object.entries(source)) {
+			if (!(key in object)) continue;
+
+			const from = object[key];
+			if (isParams(from) && isParams(to)) {
+				walk(from, to, `${prefix}${key}.`);
+			} else if (typeof from === typeof to) {
+				const controller = controllers.find(
+					(c) => c.object === object && c.property === key,
+				);
+				const step = ranges[prefix + key]?.step;
+				tweens.push({ object, key, from, to, controller, step });
+			}
+		}
+	};
+	walk(target, values, "");
+
+	return tweens;
+}
+
+function interpolate({ from, to, step }: Tween, t: number) {
+	if (typeof from === "number" && typeof to === "number") {
+		const value = from + (to - from) * t;
+		return step ? Math.round(value / step) * step : value;
+	}
+	if (
+		typeof from === "string" &&
+		typeof to === "string" &&
+		colorPattern.test(from) &&
+		colorPattern.test(to)
+	) {
+		const color = new THREE.Color(from).lerp(new THREE.Color(to), t);
+		return `#${color.getHexString()}`;
+	}
+
+	return to;
+}
+
+function setValue(tween: Tween, value: ParamValue) {
+	if (tween.object[tween.key] === value) return;
+
+	// Going through the controller runs its onChange and refreshes the GUI
+	if (tween.controller) {
+		tween.controller.setValue(value);
+	} else {
+		tween.object[tween.key] = value;
+	}
+}
+
+// Applies params directly or blends numbers and colours into them over time
+export class ParamMorph {
+	private tweens: Tween[] = [];
+	private elapsed = 0;
+	private duration = 0;
+
+	get active() {
+		return this.tweens.length > 0;
+	}
+
+	// `ranges` are the target's, see `Vslzr.ranges`
+	start(
+		target: Params,
+		values: Params,
+		gui: GUI,
+		duration: number,
+		ranges: ParamRanges = {},
+	) {
+		this.tweens = collectTweens(target, values, gui, ranges);
+		this.elapsed = 0;
+		this.duration = duration;
+
+		if (duration <= 0) {
+			this.finish();
+		}
+	}
+
+	update(delta: number) {
+		if (!this.active) return;
+
+		this.elapsed += delta;
+		if (this.elapsed >= this.duration) {
+			this.finish();
+			return;
+		}
+
+		const linear = this.elapsed / this.duration;
+		const t = linear * linear * (3 - 2 * linear);
+
+		for (const tween of this.tweens) {
+			setValue(tween, interpolate(tween, t));
+		}
+	}
+
+	cancel() {
+		this.tweens = [];
+	}
+
+	private finish() {
+		for (const tween of this.tweens) {
+			setValue(tween, tween.to);
+		}
+		this.tweens = [];
+	}
+}
@@ -0,0 +1,13 @@
+import { describe, expect, test } from "bun:test";
+import { micProblem } from "./overlay";
+
+describe("micProblem", () => {
+	test("sorts getUserMedia errors", () => {
+		expect(micProblem(new DOMException("", "NotAllowedError"))).toBe("denied");
+		expect(micProblem(new DOMException("", "NotFoundError"))).toBe("missing");
+		expect(micProblem(new DOMException("", "NotReadableError"))).toBe(
+			"failed",
+		);
+		expect(micProblem(undefined)).toBe("failed");
+	});
+});
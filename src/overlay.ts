@@ -0,0 +1,236 @@
+import { MicSource } from "./input";
+import type { VslzrPlayer } from "./player";
+
+// Why the microphone couldn't be opened, as far as the user is concerned
+export type MicProblem = "denied" | "missing" | "failed";
+
+export function micProblem(error: unknown): MicProblem {
+	const name = (error as { name?: string } | undefined)?.name;
+
+	switch (name) {
+		case "NotAllowedError":
+		case "SecurityError":
+			return "denied";
+		case "NotFoundError":
+		case "OverconstrainedError":
+			return "missing";
+		default:
+			return "failed";
+	}
+}
+
+type Screen = "start" | MicProblem | "suspended";
+
+interface ScreenText {
+	title: string;
+	text: string;
+	primary: string;
+	secondary?: string;
+}
+
+const screens: Record<Screen, ScreenText> = {
+	start: {
+		title: "vslzr",
+		text: "Visualizes whatever your microphone hears. Pick an input to start.",
+		primary: "Start",
+		secondary: "Use demo signal",
+	},
+	denied: {
+		title: "Microphone blocked",
+		text: "Playing a demo signal instead. Allow microphone access in the browser's site settings, then try again.",
+		primary: "Try again",
+		secondary: "Continue",
+	},
+	missing: {
+		title: "No microphone found",
+		text: "Playing a demo signal instead. Connect an input device, then try again.",
+		primary: "Try again",
+		secondary: "Continue",
+	},
+	failed: {
+		title: "Couldn't open the microphone",
+		text: "Playing a demo signal instead. Another app may be using it.",
+		primary: "Try again",
+		secondary: "Continue",
+	},
+	suspended: {
+		title: "Audio paused",
+		text: "The browser suspended audio playback.",
+		primary: "Resume",
+	},
+};
+
+// The screen over the page before anything plays. Clicking through it is
+// the gesture the started player waits for to unlock audio, and it asks for
+// the microphone, falling back to a demo signal when that doesn't work out.
+// It goes away with the player.
+export class StartOverlay {
+	private element: HTMLDivElement;
+	private title: HTMLHeadingElement;
+	private text: HTMLParagraphElement;
+	private device: HTMLLabelElement;
+	private select: HTMLSelectElement;
+	private primary: HTMLButtonElement;
+	private secondary: HTMLButtonElement;
+	private screen?: Screen;
+	private dismissed = false;
+	private offAudioState: () => void;
+
+	constructor(
+		private player: VslzrPlayer,
+		container: HTMLElement,
+	) {
+		this.element = element("div", "startOverlay");
+		const panel = element("div", "startPanel");
+		this.title = element("h1", "startTitle");
+		this.text = element("p", "startText");
+		this.device = element("label", "startDevice");
+		this.select = element("select", "startSelect");
+		const actions = element("div", "startActions");
+		this.primary = element("button", "startButton");
+		this.secondary = element("button", "startButton");
+
+		this.device.append("Input ", this.select);
+		actions.append(this.primary, this.secondary);
+		panel.append(this.title, this.text, this.device, actions);
+		this.element.append(panel);
+		container.append(this.element);
+
+		this.primary.addEventListener("click", () => this.onPrimary());
+		this.secondary.addEventListener("click", () => this.onSecondary());
+		this.offAudioState = player.on("audiostatechange", (state) => {
+			if (!this.dismissed || !player.started) return;
+
+			if (state === "running" && this.screen === "suspended") {
+				this.hide();
+			} else if (state !== "running" && state !== "closed") {
+				this.show("suspended");
+			}
+		});
+		navigator.mediaDevices?.addEventListener(
+			"devicechange",
+			this.onDeviceChange,
+		);
+		player.on("destroy", () => this.dispose());
+
+		this.show("start");
+		this.listDevices();
+		this.checkPermission();
+	}
+
+	dispose() {
+		this.offAudioState();
+		navigator.mediaDevices?.removeEventListener(
+			"devicechange",
+			this.onDeviceChange,
+		);
+		this.element.remove();
+	}
+
+	private onDeviceChange = () => this.listDevices();
+
+	private show(screen: Screen) {
+		const { title, text, primary, secondary } = screens[screen];
+
+		this.screen = screen;
+		this.title.textContent = title;
+		this.text.textContent = text;
+		this.primary.textContent = primary;
+		this.secondary.textContent = secondary ?? "";
+		this.secondary.hidden = !secondary;
+		this.device.hidden = screen === "suspended";
+		this.element.hidden = false;
+	}
+
+	private hide() {
+		this.screen = undefined;
+		this.element.hidden = true;
+		this.dismissed = true;
+	}
+
+	private onPrimary() {
+		if (this.screen === "suspended") {
+			this.player.audioContext.resume();
+			return;
+		}
+
+		this.startMic();
+	}
+
+	private onSecondary() {
+		if (this.screen === "start") {
+			this.player.useDemo();
+		}
+		this.hide();
+	}
+
+	private async startMic() {
+		this.primary.disabled = true;
+
+		try {
+			const deviceId = this.select.value || undefined;
+			this.player.setSource(
+				await MicSource.create(this.player.audioContext, deviceId),
+			);
+			this.hide();
+			// Device names are only shown once access is granted
+			this.listDevices();
+		} catch (error) {
+			console.error("Error accessing microphone:", error);
+			this.player.useDemo();
+			this.show(micProblem(error));
+		} finally {
+			this.primary.disabled = false;
+		}
+	}
+
+	private async listDevices() {
+		let inputs: MediaDeviceInfo[] = [];
+		try {
+			const devices = (await navigator.mediaDevices?.enumerateDevices()) ?? [];
+			inputs = devices.filter((device) => device.kind === "audioinput");
+		} catch (error) {
+			console.error("Error listing audio devices:", error);
+		}
+
+		const selected = this.select.value;
+		const options = [new Option("Default", "")];
+		inputs.forEach((device, index) => {
+			if (device.deviceId === "default" || !device.deviceId) return;
+			options.push(
+				new Option(device.label || `Microphone ${index + 1}`, device.deviceId),
+			);
+		});
+
+		this.select.replaceChildren(...options);
+		this.select.value = options.some((o) => o.value === selected)
+			? selected
+			: "";
+		this.select.disabled = inputs.length === 0;
+	}
+
+	// A blocked microphone can be spotted before asking, where the browser
+	// supports querying it. The demo signal waits for the click to play.
+	private async checkPermission() {
+		try {
+			const status = await navigator.permissions.query({
+				name: "microphone" as PermissionName,
+			});
+			if (status.state === "denied" && this.screen === "start") {
+				this.player.useDemo();
+				this.show("denied");
+			}
+		} catch {
+			// Not every browser can query the microphone, asking will tell
+		}
+	}
+}
+
+function element<K extends keyof HTMLElementTagNameMap>(
+	tag: K,
+	className: string,
+) {
+	const node = document.createElement(tag);
+	node.className = className;
+	return node;
+}
@@ -1,74 +1,164 @@
 import alea from "alea";
+import type { GUI } from "lil-gui";
 import { createNoise3D } from "simplex-noise";
 import * as THREE from "three";
+import { FixedStep } from "./clock";
 import { boundary } from "./constants";
-import type { AudioData, Vslzr } from "./types";
+import { hsl } from "./glsl";
+import { sliders } from "./sliders";
+import type { AudioData, BandLevels, ParamRanges, Vslzr } from "./types";
+
+// Particle counts offered in the GUI. Strings so a preset morph switches
+// between them instead of rebuilding at every count in between.
+const counts: Record<string, number> = {
+	"1k": 1000,
+	"2k": 2000,
+	"5k": 5000,
+	"10k": 10000,
+	"20k": 20000,
+};
 
-export class BasicParticleSystem implements Vslzr {
-	private particles: THREE.Points;
-	private particleInstances: Particle[] = [];
+const minEnergy = 0.35;
+const maxEnergy = 1;
 
-	private readonly PARTICLE_COUNT = 5000;
-	private readonly CENTER_POSITION = new THREE.Vector3(0, 0, 0);
+// Tuning shared by every particle, changes apply on the next step
+export interface ParticleParams {
+	restThreshold: number;
+	baseSpeed: number;
+	noiseScale: number;
+	lowFactor: number;
+	midFactor: number;
+	highFactor: number;
+	// Average bass a beat needs before it sets off an explosion
+	bassThreshold: number;
+}
 
-	constructor(scene: THREE.Scene) {
-		const geometry = new THREE.BufferGeometry();
-		const positions = new Float32Array(this.PARTICLE_COUNT * 3);
-		const sizes = new Float32Array(this.PARTICLE_COUNT);
-		const colors = new Float32Array(this.PARTICLE_COUNT * 3);
+const vertexShader = /* glsl */ `
+uniform float pointSize;
+uniform float energySize;
+uniform float energyColor;
+uniform float minEnergy;
+uniform float maxEnergy;
 
-		for (let i = 0; i < this.PARTICLE_COUNT; i++) {
-			const angle = Math.random() * Math.PI * 2;
-			const radius = Math.random() * boundary;
+attribute float hue;
+attribute float energy;
+varying vec3 vColor;
 
-			const x = Math.cos(angle) * radius;
-			const y = Math.sin(angle) * radius;
-			const z = (Math.random() - 0.5) * (boundary / 2);
+${hsl}
 
-			this.particleInstances.push(new Particle(x, y, z));
+void main() {
+	float level = clamp((energy - minEnergy) / (maxEnergy - minEnergy), 0.0, 1.0);
 
-			const index = i * 3;
-			positions[index] = x;
-			positions[index + 1] = y;
-			positions[index + 2] = z;
+	// Spectrum hue by index, or blue when calm through to red when charged
+	vec3 spectrum = hsl2rgb(vec3(hue, 1.0, 0.5));
+	vec3 charged = hsl2rgb(vec3(0.66 * (1.0 - level), 1.0, 0.5));
+	vColor = mix(spectrum, charged, energyColor);
 
-			const color = new THREE.Color().setHSL(i / this.PARTICLE_COUNT, 1.0, 0.5);
-			colors[index] = color.r;
-			colors[index + 1] = color.g;
-			colors[index + 2] = color.b;
-		}
+	gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+	gl_PointSize = pointSize * (1.0 + level * energySize);
+}
+`;
 
-		geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
-		geometry.setAttribute("size", new THREE.BufferAttribute(sizes, 1));
-		geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+const fragmentShader = /* glsl */ `
+varying vec3 vColor;
 
-		geometry.computeBoundingSphere();
+void main() {
+	gl_FragColor = vec4(vColor, 1.0);
+	#include <colorspace_fragment>
+}
+`;
 
-		const material = new THREE.PointsMaterial({
-			size: 1,
-			vertexColors: true,
-			blending: THREE.NormalBlending,
-			transparent: true,
-			sizeAttenuation: false,
-		});
+export class BasicParticleSystem implements Vslzr {
+	public params = {
+		count: "5k",
+		colorMode: "spectrum",
+		pointSize: 1,
+		energySize: 2,
+		restThreshold: 0.4,
+		baseSpeed: 5,
+		noiseScale: 0.92,
+		lowFactor: 8,
+		midFactor: 2,
+		highFactor: 4,
+		bassThreshold: 0,
+	};
+	public ranges: ParamRanges = {};
 
-		this.particles = new THREE.Points(geometry, material);
+	private folder: GUI;
+	private particles!: THREE.Points<THREE.BufferGeometry, THREE.ShaderMaterial>;
+	private particleInstances: Particle[] = [];
+	// Positions after the last two simulation steps, rendered interpolated
+	private current!: Float32Array;
+	private previous!: Float32Array;
+	private stepper = new FixedStep(1 / 60);
+	private time = 0;
+
+	private readonly CENTER_POSITION = new THREE.Vector3(0, 0, 0);
 
-		scene.add(this.particles);
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+	) {
+		this.folder = gui.addFolder("Particles");
+		const slider = sliders(this.folder, this.params, this.ranges);
+		this.folder
+			.add(this.params, "count", Object.keys(counts))
+			.name("Particles")
+			.onChange(() => this.rebuild());
+		this.folder
+			.add(this.params, "colorMode", ["spectrum", "energy"])
+			.name("Color mode");
+		slider("pointSize", 1, 8).name("Point size");
+		slider("energySize", 0, 8).name("Energy size");
+		slider("restThreshold", 0, 1).name("Rest threshold");
+		slider("baseSpeed", 0, 20).name("Base speed");
+		slider("noiseScale", 0, 4).name("Noise scale");
+		slider("lowFactor", 0, 20).name("Low factor");
+		slider("midFactor", 0, 20).name("Mid factor");
+		slider("highFactor", 0, 20).name("High factor");
+		slider("bassThreshold", 0, 2).name("Bass threshold");
+
+		this.build();
 	}
 
 	update(audioData: AudioData, delta: number): void {
-		const positions = this.particles.geometry.attributes.position
-			.array as Float32Array;
+		const { attributes } = this.particles.geometry;
+		const positions = attributes.position.array as Float32Array;
+		const energies = attributes.energy.array as Float32Array;
+
+		const alpha = this.stepper.advance(delta, (step) => {
+			this.time += step;
+			this.previous.set(this.current);
+			this.stepParticles(audioData, step);
+		});
+
+		for (let i = 0; i < positions.length; i++) {
+			positions[i] =
+				this.previous[i] + (this.current[i] - this.previous[i]) * alpha;
+		}
+		for (let i = 0; i < this.particleInstances.length; i++) {
+			energies[i] = this.particleInstances[i].energy;
+		}
 
-		const time = performance.now() * 0.001;
+		const { uniforms } = this.particles.material;
+		uniforms.pointSize.value = this.params.pointSize;
+		uniforms.energySize.value = this.params.energySize;
+		uniforms.energyColor.value = this.params.colorMode === "energy" ? 1 : 0;
 
-		for (let i = 0; i < this.PARTICLE_COUNT; i++) {
+		attributes.position.needsUpdate = true;
+		attributes.energy.needsUpdate = true;
+		this.particles.geometry.computeBoundingSphere();
+	}
+
+	private stepParticles(audioData: AudioData, step: number) {
+		const positions = this.current;
+
+		for (let i = 0; i < this.particleInstances.length; i++) {
 			const instance = this.particleInstances[i];
 
 			const index = i * 3;
 
-			instance.update(audioData, this.CENTER_POSITION, time, delta);
+			instance.update(audioData, this.CENTER_POSITION, this.time, step);
 
 			if (
 				!Number.isNaN(instance.position.x) &&
@@ -79,7 +169,7 @@ export class BasicParticleSystem implements Vslzr {
 				positions[index + 1] = instance.position.y;
 				positions[index + 2] = instance.position.z;
 
-				return;
+				continue;
 			}
 
 			positions[index] = 0;
@@ -88,14 +178,83 @@ export class BasicParticleSystem implements Vslzr {
 
 			console.warn(`Invalid position for particle ${i}`);
 		}
+	}
 
-		this.particles.geometry.attributes.position.needsUpdate = true;
-		this.particles.geometry.attributes.size.needsUpdate = true;
-		this.particles.geometry.computeBoundingSphere();
+	dispose(): void {
+		this.teardown();
+		this.folder.destroy();
+	}
+
+	private build() {
+		const count = counts[this.params.count] ?? counts["5k"];
+		const geometry = new THREE.BufferGeometry();
+		const positions = new Float32Array(count * 3);
+		const energies = new Float32Array(count);
+		const hues = new Float32Array(count);
+
+		this.particleInstances = [];
+
+		for (let i = 0; i < count; i++) {
+			const angle = Math.random() * Math.PI * 2;
+			const radius = Math.random() * boundary;
+
+			const x = Math.cos(angle) * radius;
+			const y = Math.sin(angle) * radius;
+			const z = (Math.random() - 0.5) * (boundary / 2);
+
+			const particle = new Particle(x, y, z, this.params);
+			this.particleInstances.push(particle);
+
+			const index = i * 3;
+			positions[index] = x;
+			positions[index + 1] = y;
+			positions[index + 2] = z;
+
+			energies[i] = particle.energy;
+			hues[i] = i / count;
+		}
+
+		this.current = new Float32Array(positions);
+		this.previous = new Float32Array(positions);
+
+		geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+		geometry.setAttribute("energy", new THREE.BufferAttribute(energies, 1));
+		geometry.setAttribute("hue", new THREE.BufferAttribute(hues, 1));
+
+		geometry.computeBoundingSphere();
+
+		const material = new THREE.ShaderMaterial({
+			uniforms: {
+				pointSize: { value: this.params.pointSize },
+				energySize: { value: this.params.energySize },
+				energyColor: { value: 0 },
+				minEnergy: { value: minEnergy },
+				maxEnergy: { value: maxEnergy },
+			},
+			vertexShader,
+			fragmentShader,
+			blending: THREE.NormalBlending,
+			transparent: true,
+		});
+
+		this.particles = new THREE.Points(geometry, material);
+
+		this.scene.add(this.particles);
+	}
+
+	private rebuild() {
+		this.teardown();
+		this.build();
+	}
+
+	private teardown() {
+		this.scene.remove(this.particles);
+		this.particles.geometry.dispose();
+		this.particles.material.dispose();
 	}
 }
 
-const computeAudioSensitivity = () => {
+export const computeAudioSensitivity = () => {
 	const sensitivity = {
 		low: 0.001,
 		mid: 0,
@@ -121,31 +280,32 @@ export class Particle {
 	position: THREE.Vector3;
 	velocity: THREE.Vector3;
 	acceleration: THREE.Vector3;
-	baseSpeed: number;
 
-	audioSensitivity: AudioData;
-	audioHistory: AudioData[];
+	audioSensitivity: BandLevels;
+	audioHistory: BandLevels[];
 
 	energy: number;
-	restThreshold: number;
 	maxEnergy: number;
 	minEnergy: number;
 
-	constructor(x: number, y: number, z: number) {
+	constructor(
+		x: number,
+		y: number,
+		z: number,
+		private params: ParticleParams,
+	) {
 		this.position = new THREE.Vector3(x, y, z);
 		this.velocity = new THREE.Vector3();
 		this.acceleration = new THREE.Vector3();
 		this.mass = Math.random() * 200 + 1;
 		this.noise = createNoise3D(alea());
-		this.baseSpeed = 5;
 		this.audioHistory = [];
 
 		this.audioSensitivity = computeAudioSensitivity();
 
 		this.energy = 0.1;
-		this.restThreshold = 0.4;
-		this.maxEnergy = 1;
-		this.minEnergy = 0.35;
+		this.maxEnergy = maxEnergy;
+		this.minEnergy = minEnergy;
 	}
 
 	update(
@@ -187,7 +347,7 @@ export class Particle {
 	}
 
 	private applyNoise(time: number, audioLevel: number): void {
-		const noiseScale = 0.92;
+		const { noiseScale } = this.params;
 		const noiseStrength = 0.2 * Math.pow(1 - audioLevel, 3) * this.energy;
 		const noiseOffset = this.noise(
 			this.position.x * noiseScale + time * 0.1,
@@ -231,7 +391,8 @@ export class Particle {
 		centerPosition: THREE.Vector3,
 		time: number,
 	): THREE.Vector3 {
-		this.audioHistory.push(audioData);
+		const { low, mid, high } = audioData;
+		this.audioHistory.push({ low, mid, high });
 		if (this.audioHistory.length > 10) {
 			this.audioHistory.shift();
 		}
@@ -249,9 +410,7 @@ export class Particle {
 		avgAudio.mid /= audioCount;
 		avgAudio.high /= audioCount;
 
-		const lowFactor = 8; // Increased low frequency impact
-		const midFactor = 2;
-		const highFactor = 4; // Increased high frequency impact
+		const { lowFactor, midFactor, highFactor, bassThreshold } = this.params;
 
 		const bassForce =
 			avgAudio.low * this.audioSensitivity.low * (boundary * lowFactor);
@@ -266,9 +425,10 @@ export class Particle {
 			Math.sin(time * 4 + this.position.z) * highForce,
 		);
 
-		// Bass explosion effect
-		const bassThreshold = 1;
-		if (avgAudio.low > bassThreshold) {
+		// Bass explosion effect, kicked off by a detected beat over enough bass
+		// and fading out with its pulse
+		const { pulse } = audioData.beat;
+		if (pulse > 0.05 && avgAudio.low > bassThreshold) {
 			const explosionDirection = this.position
 				.clone()
 				.sub(centerPosition)
@@ -286,7 +446,7 @@ export class Particle {
 				this.noise(this.position.z, this.position.x, this.position.y),
 			);
 
-			const explosionStrength = bassForce * 5 * (avgAudio.low - bassThreshold);
+			const explosionStrength = bassForce * 5 * pulse;
 			const explosionForce =
 				explosionDirection.multiplyScalar(explosionStrength);
 
@@ -308,19 +468,21 @@ export class Particle {
 		const distance = direction.length();
 		const maxDistance = boundary / 2;
 
+		const { restThreshold, baseSpeed } = this.params;
+
 		// Movement towards center only when energy is above rest threshold
-		if (this.energy > this.restThreshold) {
+		if (this.energy > restThreshold) {
 			const speedFactor = Math.pow(
-				(distance / maxDistance) * (this.energy - this.restThreshold),
+				(distance / maxDistance) * (this.energy - restThreshold),
 				2,
 			);
-			const speed = this.baseSpeed * speedFactor;
+			const speed = baseSpeed * speedFactor;
 			return direction.normalize().multiplyScalar(speed);
 		}
 
 		// Gradual deceleration when near the center
 		const decelerationFactor =
-			Math.max(0, this.restThreshold - this.energy) / this.restThreshold;
+			Math.max(0, restThreshold - this.energy) / restThreshold;
 
 		return this.velocity.clone().multiplyScalar(-decelerationFactor);
 	}
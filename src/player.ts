@@ -0,0 +1,866 @@
+import GUI, { type Controller } from "lil-gui";
+import * as THREE from "three";
+import { AudioAnalyser } from "./analysis";
+import { ChannelAnalysers } from "./channels";
+import { Clock } from "./clock";
+import { Emitter } from "./emitter";
+import {
+	SignalGenerator,
+	addGeneratorFolder,
+	createGeneratorParams,
+} from "./generator";
+import {
+	type ExportOptions,
+	downloadBlob,
+	renderOffline,
+	resolutions,
+} from "./export";
+import {
+	DemoSource,
+	type InputSource,
+	MediaElementSource,
+	MicSource,
+} from "./input";
+import { LayerStack } from "./layers";
+import { MidiManager } from "./midi";
+import { ModulationManager } from "./modulation";
+import { ParamMorph } from "./morph";
+import { PostProcessing } from "./post";
+import { type Preset, PresetManager } from "./presets";
+import { CanvasRecorder } from "./recorder";
+import { defaultVslzr, getVslzr, vslzrNames } from "./registry";
+import type {
+	AudioData,
+	BeatData,
+	ParamScope,
+	Params,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+import { Viewport } from "./viewport";
+
+export interface PlayerOptions {
+	// A registered visualizer name, the default one when left out
+	visualizer?: string;
+	// Where the audio comes from: "mic", "demo", "generator", a URL, a file,
+	// a media element or any other source. Left out, nothing plays until one is set.
+	input?: string | File | HTMLMediaElement | InputSource;
+	// Applied over the visualizer's defaults, or the preset's
+	params?: Params;
+	// A preset, or the name of one saved for the visualizer
+	preset?: Preset | string;
+	// Where the tuning GUI goes. True floats it over the page, false hides it.
+	gui?: boolean | HTMLElement;
+	// Mirrors the visualizer into `?vslzr=` and loads shared preset links
+	syncUrl?: boolean;
+}
+
+export interface PlayerEvents {
+	start: undefined;
+	stop: undefined;
+	// Once `destroy` has taken everything down
+	destroy: undefined;
+	visualizerchange: string;
+	// The new source's label
+	sourcechange: string;
+	beat: BeatData;
+	audiostatechange: AudioContextState;
+	error: unknown;
+}
+
+// Any of these count as the user gesture browsers want before playing audio
+const gestureEvents = ["pointerdown", "keydown", "touchend"];
+
+// A visualizer with its audio input, GUI and render loop, drawn into a
+// container element
+export class VslzrPlayer extends Emitter<PlayerEvents> {
+	private clock = new Clock();
+	private gui: GUI;
+	private vslzr?: Vslzr;
+	private vslzrName?: string;
+	private settings = { vslzr: defaultVslzr };
+	private presets?: PresetManager;
+	private modulation?: ModulationManager;
+	private midi?: MidiManager;
+	private layers: LayerStack;
+	private renderer: THREE.WebGLRenderer;
+	private viewport: Viewport;
+	private context: VslzrContext;
+	private post: PostProcessing;
+
+	private analyser: AnalyserNode;
+	// Sources for `setSource` have to be created on this context
+	public readonly audioContext: AudioContext;
+	private dataArray: Uint8Array;
+	private waveform: Float32Array;
+	// Left and right next to the mono mix
+	private channels: ChannelAnalysers;
+	// Carries whatever source is active to the recorder
+	private recordingDestination: MediaStreamAudioDestinationNode;
+	private source?: InputSource;
+	private input = {
+		nowPlaying: "",
+		url: "",
+	};
+	// Kept across uses so the generator comes back the way it was left
+	private generatorParams = createGeneratorParams();
+
+	private audioAnalyser = new AudioAnalyser();
+	private bpmDisplay = { bpm: 0 };
+	private exporting = false;
+	private exportSettings = {
+		fps: 30,
+		resolution: "1080p",
+		format: "webm" as ExportOptions["format"],
+		bitrate: 8,
+		progress: 0,
+	};
+	private recorder: CanvasRecorder;
+	private recording?: Blob;
+	private downloadControl?: Controller;
+	private recordSettings = {
+		fps: 60,
+		resolution: "window",
+		bitrate: 12,
+	};
+
+	private frame?: number;
+	private running = false;
+	private syncUrl: boolean;
+	// A media source that should be playing once audio is allowed to
+	private resumeMedia = false;
+	// Set while waiting for a gesture to unlock audio
+	private unlock?: () => void;
+
+	constructor(
+		private container: HTMLElement,
+		options: PlayerOptions = {},
+	) {
+		super();
+		this.syncUrl = options.syncUrl ?? false;
+		this.gui = new GUI(
+			options.gui instanceof HTMLElement ? { container: options.gui } : {},
+		);
+		if (options.gui === false) {
+			this.gui.hide();
+		}
+		this.renderer = this.initRenderer();
+		this.viewport = new Viewport(this.renderer, this.gui, container);
+		this.context = {
+			renderer: this.renderer,
+			bounds: this.viewport.bounds,
+		};
+		this.audioContext = this.initAudio();
+		this.analyser = this.initAnalyser();
+		this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+		this.waveform = new Float32Array(this.analyser.fftSize);
+		this.channels = new ChannelAnalysers(
+			this.audioContext,
+			this.analyser.fftSize,
+			this.analyser.smoothingTimeConstant,
+		);
+		this.recordingDestination =
+			this.audioContext.createMediaStreamDestination();
+		this.recorder = new CanvasRecorder(
+			this.renderer.domElement,
+			this.recordingDestination.stream,
+		);
+
+		this.initVslzrSwitcher();
+		this.layers = new LayerStack(this.context, this.gui);
+		this.setVisualizer(options.visualizer ?? defaultVslzr);
+		this.initModulation();
+		this.initPresets();
+
+		this.initClockControls();
+		this.initInputControls();
+		this.initAnalysisControls();
+		this.post = new PostProcessing(
+			this.renderer,
+			this.layers.scene,
+			this.layers.camera,
+			this.gui,
+		);
+		this.initExportControls();
+		this.initRecordControls();
+		this.midi = new MidiManager(this.gui, () => this.paramScopes());
+		this.initDropTarget();
+		this.viewport.onResize(() => {
+			this.post.resize();
+			this.layers.resize();
+		});
+
+		if (options.preset) {
+			this.loadPreset(options.preset);
+		}
+		if (options.params) {
+			this.setParams(options.params);
+		}
+		if (options.input) {
+			this.setInput(options.input);
+		}
+	}
+
+	// Whether the player is running, between `start` and `stop`
+	public get started() {
+		return this.running;
+	}
+
+	// Starts rendering and, as soon as the browser allows, the audio
+	public start() {
+		if (this.running) return;
+
+		this.running = true;
+		this.resumeAudio();
+		if (this.resumeMedia) {
+			this.playMedia();
+		}
+		this.frame = requestAnimationFrame(this.animate);
+		this.emit("start", undefined);
+	}
+
+	// Pauses rendering and the audio, `start` picks both up again
+	public stop() {
+		if (!this.running) return;
+
+		this.running = false;
+		if (this.frame !== undefined) {
+			cancelAnimationFrame(this.frame);
+			this.frame = undefined;
+		}
+		if (this.source instanceof MediaElementSource && !this.source.paused) {
+			this.source.pause();
+			this.resumeMedia = true;
+		}
+		this.stopAwaitingGesture();
+		this.audioContext.suspend();
+		this.emit("stop", undefined);
+	}
+
+	// Stops everything and removes the canvas and GUI. The player can't be
+	// used afterwards.
+	public destroy() {
+		this.stop();
+
+		if (this.recorder.recording) {
+			this.recorder.stop();
+		}
+		this.source?.dispose();
+		this.source = undefined;
+		this.vslzr?.dispose();
+		this.vslzr = undefined;
+		this.layers.dispose();
+		this.post.dispose();
+		this.viewport.dispose();
+		this.midi?.dispose();
+		this.gui.destroy();
+		this.renderer.dispose();
+		this.renderer.domElement.remove();
+		this.audioContext.close();
+		this.emit("destroy", undefined);
+		this.clear();
+	}
+
+	public setVisualizer(name: string) {
+		let impl = getVslzr(name);
+
+		if (!impl && !this.vslzr) {
+			console.warn(`Unknown vslzr "${name}", using "${defaultVslzr}"`);
+			name = defaultVslzr;
+			impl = getVslzr(name);
+		}
+		if (!impl) {
+			console.warn(`Unknown vslzr "${name}", keeping the current one`);
+			return;
+		}
+
+		let vslzr: Vslzr;
+		try {
+			vslzr = new impl(this.layers.main.scene, this.gui, this.context);
+		} catch (error) {
+			this.fail(`Error starting vslzr "${name}":`, error);
+			if (!this.vslzr && name !== defaultVslzr) {
+				this.setVisualizer(defaultVslzr);
+			}
+			// The switcher already shows the one that failed
+			this.settings.vslzr = this.vslzrName ?? defaultVslzr;
+			this.gui.controllersRecursive().forEach((c) => c.updateDisplay());
+			return;
+		}
+
+		this.vslzr?.dispose();
+		this.vslzr = vslzr;
+		this.vslzrName = name;
+		this.layers.setMain(this.vslzr, name);
+		this.settings.vslzr = name;
+		this.gui.controllersRecursive().forEach((c) => c.updateDisplay());
+		this.modulation?.attach(this.vslzr);
+		this.presets?.refresh();
+		this.emit("visualizerchange", name);
+
+		if (this.syncUrl) {
+			const url = new URL(window.location.href);
+			url.searchParams.set("vslzr", name);
+			window.history.replaceState(null, "", url);
+		}
+	}
+
+	// Sets the given params on the visualizer, leaving the rest alone
+	public setParams(params: Params) {
+		const vslzr = this.vslzr;
+
+		if (vslzr?.params) {
+			new ParamMorph().start(vslzr.params, params, this.gui, 0, vslzr.ranges);
+		}
+	}
+
+	// Applies a preset, or the one saved under `name` for the visualizer
+	public loadPreset(preset: Preset | string) {
+		if (typeof preset === "string") {
+			this.presets?.load(preset, 0);
+		} else {
+			this.presets?.apply(preset);
+		}
+	}
+
+	public setInput(input: NonNullable<PlayerOptions["input"]>) {
+		if (input === "mic") {
+			this.useMic();
+		} else if (input === "demo") {
+			this.useDemo();
+		} else if (input === "generator") {
+			this.useGenerator();
+		} else if (
+			typeof input === "string" ||
+			input instanceof File ||
+			input instanceof HTMLMediaElement
+		) {
+			this.useMedia(input);
+		} else {
+			this.setSource(input);
+		}
+	}
+
+	public setSource(source: InputSource) {
+		if (this.source) {
+			this.source.node.disconnect();
+			this.source.dispose();
+		}
+
+		this.source = source;
+		source.node.connect(this.analyser);
+		source.node.connect(this.channels.input);
+		source.node.connect(this.recordingDestination);
+		if (source.audible) {
+			source.node.connect(this.audioContext.destination);
+		}
+
+		this.input.nowPlaying = source.label;
+		this.resumeMedia = false;
+		this.emit("sourcechange", source.label);
+
+		if (source instanceof MediaElementSource) {
+			this.resumeMedia = true;
+		}
+		if (this.running) {
+			this.resumeAudio();
+			this.playMedia();
+		}
+	}
+
+	public async useMic(deviceId?: string) {
+		try {
+			this.setSource(await MicSource.create(this.audioContext, deviceId));
+		} catch (error) {
+			this.fail("Error accessing microphone:", error);
+		}
+	}
+
+	public useDemo() {
+		this.setSource(new DemoSource(this.audioContext));
+	}
+
+	public useGenerator() {
+		this.setSource(
+			new SignalGenerator(this.audioContext, this.generatorParams),
+		);
+	}
+
+	public useMedia(src: string | File | HTMLMediaElement) {
+		try {
+			this.setSource(new MediaElementSource(this.audioContext, src));
+		} catch (error) {
+			this.fail("Error loading audio:", error);
+		}
+	}
+
+	// Browsers keep audio suspended until the page gets a click or a key
+	// press. Resumes now if that's happened, and otherwise on the next one.
+	private resumeAudio() {
+		if (this.audioContext.state !== "suspended") return;
+
+		this.audioContext.resume().catch(() => {
+			// Still locked, the gesture listener takes it from here
+		});
+		this.awaitGesture();
+	}
+
+	private playMedia() {
+		const source = this.source;
+		if (!this.resumeMedia || !(source instanceof MediaElementSource)) return;
+
+		this.resumeMedia = false;
+		source.play().catch((error) => {
+			if (error?.name === "NotAllowedError") {
+				this.resumeMedia = true;
+				this.awaitGesture();
+			} else {
+				this.fail("Error starting playback:", error);
+			}
+		});
+	}
+
+	// Retries whatever autoplay blocked on the next user gesture
+	private awaitGesture() {
+		if (this.unlock) return;
+
+		this.unlock = () => {
+			this.stopAwaitingGesture();
+			if (!this.running) return;
+
+			this.audioContext.resume();
+			this.playMedia();
+		};
+		for (const type of gestureEvents) {
+			window.addEventListener(type, this.unlock, true);
+		}
+	}
+
+	private stopAwaitingGesture() {
+		if (!this.unlock) return;
+
+		for (const type of gestureEvents) {
+			window.removeEventListener(type, this.unlock, true);
+		}
+		this.unlock = undefined;
+	}
+
+	// What MIDI can bind: the switcher, the main visualizer, the layers and
+	// the effects
+	private paramScopes(): ParamScope[] {
+		const scopes: ParamScope[] = [
+			{ key: "player", params: this.settings, ranges: {} },
+		];
+		if (this.vslzr?.params) {
+			scopes.push({
+				key: `main/${this.vslzrName}`,
+				params: this.vslzr.params,
+				ranges: this.vslzr.ranges ?? {},
+			});
+		}
+		scopes.push(...this.layers.scopes(), {
+			key: "effects",
+			params: this.post.params,
+			ranges: this.post.ranges,
+		});
+
+		return scopes;
+	}
+
+	private fail(message: string, error: unknown) {
+		console.error(message, error);
+		this.emit("error", error);
+	}
+
+	private initPresets() {
+		const host = this;
+
+		this.presets = new PresetManager(this.gui, {
+			get vslzrName() {
+				return host.settings.vslzr;
+			},
+			get vslzr() {
+				return host.vslzr;
+			},
+			get routes() {
+				return host.modulation?.routes ?? [];
+			},
+			get layers() {
+				return host.layers.toPreset();
+			},
+			setVslzr: (name) => this.setVisualizer(name),
+			setRoutes: (routes) => this.modulation?.setRoutes(routes),
+			setLayers: (layers) => this.layers.load(layers),
+		});
+		if (this.syncUrl) {
+			this.presets.loadFromHash();
+		}
+	}
+
+	private initModulation() {
+		this.modulation = new ModulationManager(this.gui);
+		this.modulation.attach(this.vslzr);
+	}
+
+	// Updates and draws every layer, with the modulation routes applied to
+	// the main visualizer for the length of its update
+	private renderFrame(audioData: AudioData, delta: number) {
+		const matrix = this.modulation?.matrix;
+		const params = this.vslzr?.params;
+
+		if (params) {
+			matrix?.apply(params, audioData, delta);
+		}
+		this.layers.update(audioData, delta, this.audioAnalyser);
+		matrix?.restore();
+
+		this.layers.render(this.viewport.camera);
+		this.post.render(audioData, delta);
+	}
+
+	private initVslzrSwitcher() {
+		this.gui
+			.add(this.settings, "vslzr", vslzrNames())
+			.name("Visualizer")
+			.onChange((name: string) => this.setVisualizer(name));
+	}
+
+	private initClockControls() {
+		const folder = this.gui.addFolder("Time");
+
+		folder.add(this.clock.params, "paused").name("Paused");
+		folder.add(this.clock.params, "timeScale", 0, 4).name("Time scale");
+		folder.add(this.clock, "step").name("Step frame");
+	}
+
+	private initInputControls() {
+		const folder = this.gui.addFolder("Input");
+		const media = () =>
+			this.source instanceof MediaElementSource ? this.source : undefined;
+
+		// Getters and setters so the seek slider follows playback while
+		// still being draggable
+		const transport = {
+			get position() {
+				const source = media();
+				return source?.duration ? source.currentTime / source.duration : 0;
+			},
+			set position(value: number) {
+				const source = media();
+				if (source) {
+					source.currentTime = value * source.duration;
+				}
+			},
+			playPause: () => {
+				const source = media();
+				if (!source) return;
+
+				if (source.paused) {
+					source.play();
+				} else {
+					source.pause();
+				}
+			},
+		};
+
+		const picker = document.createElement("input");
+		picker.type = "file";
+		picker.accept = "audio/*";
+		picker.addEventListener("change", () => {
+			const file = picker.files?.[0];
+			if (file) {
+				this.useMedia(file);
+			}
+			picker.value = "";
+		});
+
+		folder.add(this.input, "nowPlaying").name("Source").disable().listen();
+		folder.add(this, "useMic").name("Use microphone");
+		folder.add(this, "useDemo").name("Use demo signal");
+		folder.add(this, "useGenerator").name("Use signal generator");
+		folder.add({ open: () => picker.click() }, "open").name("Open file…");
+		folder.add(this.input, "url").name("URL");
+		folder
+			.add(
+				{ load: () => this.input.url && this.useMedia(this.input.url) },
+				"load",
+			)
+			.name("Load URL");
+		folder.add(transport, "playPause").name("Play / Pause");
+		folder.add(transport, "position", 0, 1, 0.001).name("Seek").listen();
+		addGeneratorFolder(folder, this.generatorParams);
+	}
+
+	private initAnalysisControls() {
+		const folder = this.gui.addFolder("Analysis");
+
+		const { params, beatDetector } = this.audioAnalyser;
+
+		folder.add(params, "bands", 2, 64, 1).name("Bands");
+		folder.add(params, "smoothing", 0, 0.99).name("Smoothing");
+		folder
+			.add(beatDetector.params, "sensitivity", 0.5, 4)
+			.name("Beat sensitivity");
+		folder
+			.add(beatDetector.params, "beatCutoff", 50, 500)
+			.name("Beat cutoff (Hz)");
+		folder.add(this.bpmDisplay, "bpm").name("BPM").disable().listen();
+	}
+
+	private initExportControls() {
+		const folder = this.gui.addFolder("Export");
+		const settings = this.exportSettings;
+
+		const picker = document.createElement("input");
+		picker.type = "file";
+		picker.accept = "audio/*";
+		picker.addEventListener("change", () => {
+			const file = picker.files?.[0];
+			if (file) {
+				this.exportVideo(file);
+			}
+			picker.value = "";
+		});
+
+		folder.add(settings, "fps", [24, 30, 60]).name("FPS");
+		folder
+			.add(settings, "resolution", Object.keys(resolutions))
+			.name("Resolution");
+		folder.add(settings, "format", ["webm", "png"]).name("Format");
+		folder.add(settings, "bitrate", 1, 50, 1).name("Bitrate (Mbps)");
+		folder
+			.add({ render: () => picker.click() }, "render")
+			.name("Render file…");
+		folder
+			.add(settings, "progress", 0, 1)
+			.name("Progress")
+			.disable()
+			.listen();
+	}
+
+	// Renders `file` offline with the active visualizer and downloads the
+	// result. The live loop is paused meanwhile, the renderer is resized to
+	// the export resolution and the visualizers start over.
+	public async exportVideo(file: Blob) {
+		if (this.exporting || !this.vslzr) return;
+
+		const settings = this.exportSettings;
+		const { width, height } = resolutions[settings.resolution];
+		const analyser = new AudioAnalyser();
+		Object.assign(analyser.params, this.audioAnalyser.params);
+		Object.assign(
+			analyser.beatDetector.params,
+			this.audioAnalyser.beatDetector.params,
+		);
+
+		const previousSize = this.viewport.fixedSize;
+
+		this.exporting = true;
+		this.viewport.setFixedSize({ width, height });
+		this.restartVisualizers();
+
+		try {
+			const blob = await renderOffline(
+				file,
+				{
+					canvas: this.renderer.domElement,
+					renderFrame: (audioData, delta) =>
+						this.renderFrame(audioData, delta),
+				},
+				analyser,
+				{
+					fps: settings.fps,
+					width,
+					height,
+					format: settings.format,
+					bitrate: settings.bitrate * 1_000_000,
+					onProgress: (progress) => {
+						settings.progress = progress;
+					},
+				},
+			);
+			const name =
+				file instanceof File ? file.name.replace(/\.\w+$/, "") : "vslzr";
+			const extension = settings.format === "webm" ? "webm" : "zip";
+
+			downloadBlob(blob, `${name}.${extension}`);
+		} catch (error) {
+			this.fail("Error exporting video:", error);
+		} finally {
+			this.exporting = false;
+			this.viewport.setFixedSize(previousSize);
+		}
+	}
+
+	// Builds the main and layer visualizers anew with the params they have,
+	// so an export starts from scratch rather than from the live view
+	private restartVisualizers() {
+		const params = this.vslzr?.params;
+		const saved = params && structuredClone(params);
+		const layers = this.layers.toPreset();
+
+		this.setVisualizer(this.settings.vslzr);
+		if (saved) this.setParams(saved);
+		this.layers.load(layers);
+	}
+
+	private initRecordControls() {
+		const folder = this.gui.addFolder("Record");
+		const settings = this.recordSettings;
+		const recorder = this.recorder;
+
+		const status = {
+			get elapsed() {
+				const seconds = Math.floor(recorder.elapsed);
+				const minutes = Math.floor(seconds / 60);
+				return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+			},
+		};
+
+		folder.add(settings, "fps", [24, 30, 60]).name("FPS");
+		folder
+			.add(settings, "resolution", ["window", ...Object.keys(resolutions)])
+			.name("Resolution");
+		folder.add(settings, "bitrate", 1, 50, 1).name("Bitrate (Mbps)");
+		const toggle = folder
+			.add({ toggle: () => this.toggleRecording(toggle) }, "toggle")
+			.name("● Record");
+		recorder.onError = (error) => {
+			toggle.name("● Record");
+			this.viewport.setFixedSize();
+			this.fail("Error recording:", error);
+		};
+		folder.add(status, "elapsed").name("Elapsed").disable().listen();
+		this.downloadControl = folder
+			.add({ download: () => this.downloadRecording() }, "download")
+			.name("Download recording")
+			.disable();
+	}
+
+	private async toggleRecording(toggle: Controller) {
+		const settings = this.recordSettings;
+
+		if (this.recorder.recording) {
+			toggle.name("● Record");
+
+			this.recording = await this.recorder.stop();
+			this.viewport.setFixedSize();
+			this.downloadControl?.enable(Boolean(this.recording));
+			return;
+		}
+
+		if (this.exporting) return;
+
+		if (settings.resolution !== "window") {
+			this.viewport.setFixedSize(resolutions[settings.resolution]);
+		}
+
+		try {
+			this.recorder.start({
+				fps: settings.fps,
+				bitrate: settings.bitrate * 1_000_000,
+			});
+			toggle.name("■ Stop");
+		} catch (error) {
+			this.fail("Error starting recording:", error);
+			this.viewport.setFixedSize();
+		}
+	}
+
+	private downloadRecording() {
+		if (!this.recording) return;
+
+		const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+		downloadBlob(this.recording, `vslzr-${stamp}.webm`);
+	}
+
+	private initDropTarget() {
+		const canvas = this.renderer.domElement;
+
+		canvas.addEventListener("dragover", (event) => {
+			event.preventDefault();
+		});
+		canvas.addEventListener("drop", (event) => {
+			event.preventDefault();
+
+			const file = event.dataTransfer?.files[0];
+			if (file?.type.startsWith("audio/")) {
+				this.useMedia(file);
+			}
+		});
+	}
+
+	private initRenderer() {
+		// Sized by the viewport
+		const renderer = new THREE.WebGLRenderer({ antialias: true });
+
+		this.container.appendChild(renderer.domElement);
+
+		return renderer;
+	}
+
+	private initAudio() {
+		const audioContext = new (
+			window.AudioContext || window.webkitAudioContext
+		)();
+
+		audioContext.addEventListener("statechange", () => {
+			if (audioContext.state === "running" && !this.resumeMedia) {
+				this.stopAwaitingGesture();
+			}
+			// Interrupted by the system, e.g. a call on a phone
+			if (audioContext.state === "suspended" && this.running) {
+				this.resumeAudio();
+			}
+			this.emit("audiostatechange", audioContext.state);
+		});
+
+		return audioContext;
+	}
+
+	private initAnalyser() {
+		const analyser = this.audioContext.createAnalyser();
+		analyser.fftSize = 2048; // Increased for better frequency resolution
+		analyser.smoothingTimeConstant = 0.85; // Add some built-in smoothing
+
+		return analyser;
+	}
+
+	private animate = () => {
+		this.frame = requestAnimationFrame(this.animate);
+
+		if (this.exporting) return;
+
+		const delta = this.clock.tick();
+		const audioData = this.processAudioData(this.dataArray);
+		if (audioData.beat.isBeat) {
+			this.emit("beat", audioData.beat);
+		}
+
+		// Morphs run on wall-clock time so slow motion doesn't stretch them
+		this.presets?.update(this.clock.realDelta);
+		this.viewport.update(this.clock.realDelta);
+		this.renderFrame(audioData, delta);
+	};
+
+	private processAudioData(dataArray: Uint8Array): AudioData {
+		this.analyser.getByteFrequencyData(dataArray);
+		this.analyser.getFloatTimeDomainData(this.waveform);
+
+		const audioData = this.audioAnalyser.analyze(
+			dataArray,
+			this.audioContext.sampleRate,
+			this.waveform,
+			this.audioContext.currentTime,
+			this.channels.read(),
+		);
+		this.midi?.applyClock(
+			audioData.beat,
+			this.audioAnalyser.beatDetector.params.pulseDecay,
+		);
+		this.bpmDisplay.bpm = Math.round(audioData.beat.bpm);
+
+		return audioData;
+	}
+}
+
@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { AudioAnalyser } from "./analysis";
+import { modulate } from "./post";
+
+const silence = new AudioAnalyser().analyze(new Uint8Array(1024), 44100);
+
+describe("modulate", () => {
+	const frame = {
+		...silence,
+		low: 0.5,
+		high: 0.25,
+		beat: { ...silence.beat, pulse: 1 },
+	};
+
+	test("adds the bound level scaled by depth", () => {
+		expect(modulate(1, { source: "low", depth: 2 }, frame)).toBe(2);
+		expect(modulate(1, { source: "high", depth: -2 }, frame)).toBe(0.5);
+		expect(modulate(0.1, { source: "beat", depth: 0.4 }, frame)).toBeCloseTo(
+			0.5,
+		);
+	});
+
+	test("leaves the value alone when unbound or unknown", () => {
+		expect(modulate(0.3, { source: "none", depth: 5 }, frame)).toBe(0.3);
+		expect(modulate(0.3, { source: "missing", depth: 5 }, frame)).toBe(0.3);
+	});
+});
@@ -0,0 +1,253 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import { AfterimagePass } from "three/examples/jsm/postprocessing/AfterimagePass.js";
+import { EffectComposer } from "three/examples/jsm/postprocessing/EffectComposer.js";
+import { FilmPass } from "three/examples/jsm/postprocessing/FilmPass.js";
+import { OutputPass } from "three/examples/jsm/postprocessing/OutputPass.js";
+import { RenderPass } from "three/examples/jsm/postprocessing/RenderPass.js";
+import { ShaderPass } from "three/examples/jsm/postprocessing/ShaderPass.js";
+import { UnrealBloomPass } from "three/examples/jsm/postprocessing/UnrealBloomPass.js";
+import { audioSources } from "./modulation";
+import { sliders } from "./sliders";
+import type { AudioData, ParamRanges } from "./types";
+
+// Analysis values an effect intensity can follow
+export const bindingSources: Record<string, (audioData: AudioData) => number> =
+	{
+		none: () => 0,
+		...audioSources,
+	};
+
+export interface Binding {
+	source: string;
+	depth: number;
+}
+
+// `value` pushed up by the bound source, scaled by the binding's depth
+export function modulate(
+	value: number,
+	binding: Binding,
+	audioData: AudioData,
+): number {
+	const level = bindingSources[binding.source]?.(audioData) ?? 0;
+	return value + level * binding.depth;
+}
+
+// Splits the channels apart, further towards the edges of the frame
+const aberrationShader = {
+	uniforms: {
+		tDiffuse: { value: null },
+		amount: { value: 0 },
+	},
+	vertexShader: /* glsl */ `
+		varying vec2 vUv;
+
+		void main() {
+			vUv = uv;
+			gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+		}
+	`,
+	fragmentShader: /* glsl */ `
+		uniform sampler2D tDiffuse;
+		uniform float amount;
+		varying vec2 vUv;
+
+		void main() {
+			vec2 offset = (vUv - 0.5) * amount;
+			vec4 color = texture2D(tDiffuse, vUv);
+			color.r = texture2D(tDiffuse, vUv + offset).r;
+			color.b = texture2D(tDiffuse, vUv - offset).b;
+
+			gl_FragColor = color;
+		}
+	`,
+};
+
+// Trail decay is tuned per frame at 60fps
+const trailFrameRate = 60;
+
+// The effect chain between the scene and the canvas
+export class PostProcessing {
+	public params = {
+		bloom: {
+			enabled: false,
+			strength: 0.6,
+			radius: 0.4,
+			threshold: 0.1,
+			source: "low",
+			depth: 0.5,
+		},
+		trails: {
+			enabled: false,
+			damp: 0.85,
+			source: "none",
+			depth: 0.1,
+		},
+		aberration: {
+			enabled: false,
+			amount: 0.005,
+			source: "beat",
+			depth: 0.03,
+		},
+		grain: {
+			enabled: false,
+			intensity: 0.2,
+			source: "none",
+			depth: 0.5,
+		},
+	};
+	public ranges: ParamRanges = {};
+
+	private composer: EffectComposer;
+	private bloom: UnrealBloomPass;
+	private trails: AfterimagePass;
+	private aberration: ShaderPass;
+	private grain: FilmPass;
+	private folder: GUI;
+
+	constructor(
+		private renderer: THREE.WebGLRenderer,
+		private scene: THREE.Scene,
+		private camera: THREE.Camera,
+		gui: GUI,
+	) {
+		const size = renderer.getSize(new THREE.Vector2());
+		const { bloom, trails, aberration, grain } = this.params;
+
+		// Multisampled so lines stay as smooth as the antialiased canvas
+		const target = new THREE.WebGLRenderTarget(
+			size.x * renderer.getPixelRatio(),
+			size.y * renderer.getPixelRatio(),
+			{ type: THREE.HalfFloatType, samples: 4 },
+		);
+		this.composer = new EffectComposer(renderer, target);
+		this.bloom = new UnrealBloomPass(
+			size,
+			bloom.strength,
+			bloom.radius,
+			bloom.threshold,
+		);
+		this.trails = new AfterimagePass(trails.damp);
+		this.aberration = new ShaderPass(aberrationShader);
+		this.grain = new FilmPass(grain.intensity);
+
+		this.composer.addPass(new RenderPass(scene, camera));
+		this.composer.addPass(this.trails);
+		this.composer.addPass(this.bloom);
+		this.composer.addPass(this.aberration);
+		this.composer.addPass(this.grain);
+		this.composer.addPass(new OutputPass());
+
+		this.folder = gui.addFolder("Effects");
+
+		const bloomFolder = this.folder.addFolder("Bloom");
+		const bloomSlider = sliders(bloomFolder, bloom, this.ranges, "bloom.");
+		bloomFolder.add(bloom, "enabled").name("Enabled");
+		bloomSlider("strength", 0, 3).name("Strength");
+		bloomSlider("radius", 0, 1).name("Radius");
+		bloomSlider("threshold", 0, 1).name("Threshold");
+		this.addBinding(bloomFolder, bloom, bloomSlider, 3);
+
+		const trailsFolder = this.folder.addFolder("Trails");
+		const trailsSlider = sliders(trailsFolder, trails, this.ranges, "trails.");
+		trailsFolder.add(trails, "enabled").name("Enabled");
+		trailsSlider("damp", 0, 0.99).name("Persistence");
+		this.addBinding(trailsFolder, trails, trailsSlider, 0.5);
+
+		const aberrationFolder = this.folder.addFolder("Chromatic aberration");
+		const aberrationSlider = sliders(
+			aberrationFolder,
+			aberration,
+			this.ranges,
+			"aberration.",
+		);
+		aberrationFolder.add(aberration, "enabled").name("Enabled");
+		aberrationSlider("amount", 0, 0.05).name("Amount");
+		this.addBinding(aberrationFolder, aberration, aberrationSlider, 0.1);
+
+		const grainFolder = this.folder.addFolder("Film grain");
+		const grainSlider = sliders(grainFolder, grain, this.ranges, "grain.");
+		grainFolder.add(grain, "enabled").name("Enabled");
+		grainSlider("intensity", 0, 1).name("Intensity");
+		this.addBinding(grainFolder, grain, grainSlider, 1);
+
+		this.folder.close();
+	}
+
+	render(audioData: AudioData, delta: number) {
+		const { bloom, trails, aberration, grain } = this.params;
+
+		if (
+			!bloom.enabled &&
+			!trails.enabled &&
+			!aberration.enabled &&
+			!grain.enabled
+		) {
+			this.renderer.render(this.scene, this.camera);
+			return;
+		}
+
+		this.bloom.enabled = bloom.enabled;
+		this.bloom.strength = Math.max(
+			0,
+			modulate(bloom.strength, bloom, audioData),
+		);
+		this.bloom.radius = bloom.radius;
+		this.bloom.threshold = bloom.threshold;
+
+		// Frame-rate independent, so exports at 30fps leave the same trails
+		const damp = THREE.MathUtils.clamp(
+			modulate(trails.damp, trails, audioData),
+			0,
+			0.99,
+		);
+		this.trails.enabled = trails.enabled;
+		this.trails.uniforms.damp.value = damp ** (delta * trailFrameRate);
+
+		this.aberration.enabled = aberration.enabled;
+		this.aberration.uniforms.amount.value = modulate(
+			aberration.amount,
+			aberration,
+			audioData,
+		);
+
+		this.grain.enabled = grain.enabled;
+		this.grain.material.uniforms.intensity.value = THREE.MathUtils.clamp(
+			modulate(grain.intensity, grain, audioData),
+			0,
+			1,
+		);
+
+		this.composer.render(delta);
+	}
+
+	// Call after the renderer's size or pixel ratio changes
+	resize() {
+		const size = this.renderer.getSize(new THREE.Vector2());
+
+		this.composer.setPixelRatio(this.renderer.getPixelRatio());
+		this.composer.setSize(size.x, size.y);
+	}
+
+	dispose() {
+		this.composer.dispose();
+		this.bloom.dispose();
+		this.trails.dispose();
+		this.aberration.dispose();
+		this.grain.dispose();
+		this.folder.destroy();
+	}
+
+	// `slider` adds to the same folder and params as `binding`
+	private addBinding(
+		folder: GUI,
+		binding: Binding,
+		slider: ReturnType<typeof sliders>,
+		maxDepth: number,
+	) {
+		folder
+			.add(binding, "source", Object.keys(bindingSources))
+			.name("Bind to");
+		slider("depth", -maxDepth, maxDepth).name("Depth");
+	}
+}
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { createRoute } from "./modulation";
+import { PresetStore, decodePreset, encodePreset } from "./presets";
+import { MemoryStorage } from "./test-helpers";
+
+describe("preset links", () => {
+	test("round-trip through the URL-safe encoding", () => {
+		const preset = {
+			vslzr: "line",
+			params: { amplitude: 1.5, colorRange: { min: "#000000", max: "#ff00ff" } },
+		};
+		const encoded = encodePreset(preset);
+
+		expect(encoded).toMatch(/^[\w-]+$/);
+		expect(decodePreset(encoded)).toEqual(preset);
+	});
+
+	test("encode presets too large to spread as arguments", () => {
+		const params = Object.fromEntries(
+			Array.from({ length: 100000 }, (_, i) => [`param${i}`, i]),
+		);
+		const preset = { vslzr: "line", params };
+
+		expect(decodePreset(encodePreset(preset))).toEqual(preset);
+	});
+
+	test("ignore broken links", () => {
+		expect(decodePreset("not a preset")).toBeUndefined();
+		expect(decodePreset(btoa(JSON.stringify({ params: {} })))).toBeUndefined();
+	});
+});
+
+describe("PresetStore", () => {
+	test("persists presets per visualizer", () => {
+		const storage = new MemoryStorage();
+		const params = { amplitude: 2 };
+
+		new PresetStore(storage).save("loud", { vslzr: "line", params });
+		params.amplitude = 0;
+
+		const store = new PresetStore(storage);
+		expect(store.names("line")).toEqual(["loud"]);
+		expect(store.names("wave")).toEqual([]);
+		expect(store.get("line", "loud")?.params).toEqual({ amplitude: 2 });
+	});
+
+	test("imports what it exports", () => {
+		const source = new PresetStore(new MemoryStorage());
+		source.save("a", { vslzr: "line", params: { amplitude: 1 } });
+		source.save("b", { vslzr: "wave", params: { waveSpeed: 3 } });
+
+		const target = new PresetStore(new MemoryStorage());
+		const count = target.import(JSON.stringify(source.toJSON()));
+
+		expect(count).toBe(2);
+		expect(target.get("wave", "b")?.params).toEqual({ waveSpeed: 3 });
+		expect(() => target.import("{}")).toThrow();
+	});
+
+	test("keeps modulation routes with the params", () => {
+		const storage = new MemoryStorage();
+		const modulation = [
+			{ ...createRoute({ path: "amplitude", min: 0, max: 2 }), depth: -1 },
+		];
+
+		new PresetStore(storage).save("routed", {
+			vslzr: "line",
+			params: { amplitude: 1 },
+			modulation,
+		});
+
+		expect(new PresetStore(storage).get("line", "routed")).toEqual({
+			vslzr: "line",
+			params: { amplitude: 1 },
+			modulation,
+		});
+	});
+
+	test("keeps working when storage is full", () => {
+		const full = new MemoryStorage();
+		full.setItem = () => {
+			throw new DOMException("", "QuotaExceededError");
+		};
+		const store = new PresetStore(full);
+		const error = console.error;
+		console.error = () => {};
+
+		store.save("kept", { vslzr: "line", params: { amplitude: 1 } });
+		expect(store.names("line")).toEqual(["kept"]);
+		store.delete("line", "kept");
+		expect(store.names("line")).toEqual([]);
+		console.error = error;
+	});
+
+	test("skips whatever in storage isn't a preset", () => {
+		const storage = new MemoryStorage();
+
+		for (const stored of ["null", "[]", '{"line":null}', '"preset"']) {
+			storage.setItem("vslzr.presets", stored);
+			expect(new PresetStore(storage).names("line")).toEqual([]);
+		}
+
+		storage.setItem(
+			"vslzr.presets",
+			JSON.stringify({
+				line: { plain: { amplitude: 2 }, good: { params: {} } },
+			}),
+		);
+		expect(new PresetStore(storage).names("line")).toEqual(["good"]);
+	});
+
+});
@@ -0,0 +1,352 @@
+import type { Controller, GUI } from "lil-gui";
+import { downloadBlob } from "./export";
+import { type LayerPreset, parseLayers } from "./layers";
+import { type Route, parseRoutes } from "./modulation";
+import { ParamMorph, isParams } from "./morph";
+import { browserStorage } from "./storage";
+import type { Params, Vslzr } from "./types";
+
+export interface Preset {
+	vslzr: string;
+	params: Params;
+	modulation?: Route[];
+	layers?: LayerPreset[];
+}
+
+export interface PresetHost {
+	readonly vslzrName: string;
+	readonly vslzr?: Vslzr;
+	readonly routes: Route[];
+	readonly layers: LayerPreset[];
+	setVslzr(name: string): void;
+	setRoutes(routes: Route[]): void;
+	setLayers(layers: LayerPreset[]): void;
+}
+
+interface PresetFile {
+	version: 1;
+	presets: (Preset & { name: string })[];
+}
+
+const storageKey = "vslzr.presets";
+const hashKey = "preset";
+// Bytes turned into characters at a time when encoding a link. Spreading a
+// whole large preset as arguments would overflow the stack.
+const encodeChunk = 0x2000;
+
+type Stored = Record<string, Record<string, Omit<Preset, "vslzr">>>;
+
+// Named presets per visualizer, kept in localStorage. Without storage they
+// only last as long as the page.
+export class PresetStore {
+	private presets: Stored;
+
+	constructor(private storage = browserStorage()) {
+		this.presets = this.read();
+	}
+
+	names(vslzr: string): string[] {
+		return Object.keys(this.presets[vslzr] ?? {}).sort();
+	}
+
+	get(vslzr: string, name: string): Preset | undefined {
+		const stored = this.presets[vslzr]?.[name];
+		return stored && { vslzr, ...structuredClone(stored) };
+	}
+
+	save(name: string, { vslzr, ...stored }: Preset) {
+		this.presets[vslzr] ??= {};
+		this.presets[vslzr][name] = structuredClone(stored);
+		this.write();
+	}
+
+	delete(vslzr: string, name: string) {
+		delete this.presets[vslzr]?.[name];
+		this.write();
+	}
+
+	toJSON(vslzr?: string): PresetFile {
+		const presets: PresetFile["presets"] = [];
+
+		for (const [key, named] of Object.entries(this.presets)) {
+			if (vslzr && key !== vslzr) continue;
+
+			for (const [name, stored] of Object.entries(named)) {
+				presets.push({ name, vslzr: key, ...stored });
+			}
+		}
+
+		return { version: 1, presets };
+	}
+
+	// Merges presets from an exported file, returns how many were added
+	import(json: string): number {
+		const file = JSON.parse(json) as Partial<PresetFile>;
+
+		if (!Array.isArray(file.presets)) {
+			throw new Error("Not a preset file");
+		}
+
+		let count = 0;
+		for (const preset of file.presets) {
+			if (
+				typeof preset?.name === "string" &&
+				typeof preset.vslzr === "string" &&
+				isParams(preset.params)
+			) {
+				this.presets[preset.vslzr] ??= {};
+				this.presets[preset.vslzr][preset.name] = checkPreset(preset);
+				count++;
+			}
+		}
+		this.write();
+
+		return count;
+	}
+
+	// Drops whatever in storage isn't a preset, so a bad entry can't stop the
+	// page from starting
+	private read(): Stored {
+		let stored: unknown;
+		try {
+			stored = JSON.parse(this.storage?.getItem(storageKey) ?? "{}");
+		} catch {
+			return {};
+		}
+
+		const presets: Stored = {};
+		if (!isParams(stored)) return presets;
+
+		for (const [vslzr, named] of Object.entries(stored)) {
+			if (!isParams(named)) continue;
+
+			for (const [name, preset] of Object.entries(named)) {
+				if (isParams(preset) && isParams(preset.params)) {
+					presets[vslzr] ??= {};
+					presets[vslzr][name] = checkPreset({
+						...preset,
+						params: preset.params,
+					});
+				}
+			}
+		}
+
+		return presets;
+	}
+
+	private write() {
+		// Full or blocked storage only loses the presets on reload
+		try {
+			this.storage?.setItem(storageKey, JSON.stringify(this.presets));
+		} catch (error) {
+			console.error("Error saving presets:", error);
+		}
+	}
+}
+
+export function encodePreset(preset: Preset): string {
+	const bytes = new TextEncoder().encode(JSON.stringify(preset));
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += encodeChunk) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + encodeChunk));
+	}
+
+	return btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+export function decodePreset(encoded: string): Preset | undefined {
+	try {
+		const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+		const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+		const preset = JSON.parse(new TextDecoder().decode(bytes));
+
+		if (typeof preset?.vslzr === "string" && isParams(preset.params)) {
+			return { vslzr: preset.vslzr, ...checkPreset(preset) };
+		}
+	} catch {
+		// Fall through, a broken link just loads nothing
+	}
+}
+
+// Keeps the params plus checked modulation routes and layers, if the preset
+// has them
+function checkPreset(preset: {
+	params: Params;
+	modulation?: unknown;
+	layers?: unknown;
+}): Omit<Preset, "vslzr"> {
+	const checked: Omit<Preset, "vslzr"> = { params: preset.params };
+
+	if (preset.modulation !== undefined) {
+		checked.modulation = parseRoutes(preset.modulation);
+	}
+	if (preset.layers !== undefined) {
+		checked.layers = parseLayers(preset.layers);
+	}
+
+	return checked;
+}
+
+// The preset GUI folder, wired to whichever visualizer is active
+export class PresetManager {
+	private store = new PresetStore();
+	private morph = new ParamMorph();
+	private folder: GUI;
+	private selector?: Controller;
+	private state = {
+		preset: "",
+		name: "",
+		morphTime: 0,
+	};
+
+	constructor(
+		private gui: GUI,
+		private host: PresetHost,
+	) {
+		this.folder = gui.addFolder("Presets");
+
+		const picker = document.createElement("input");
+		picker.type = "file";
+		picker.accept = "application/json,.json";
+		picker.addEventListener("change", async () => {
+			const file = picker.files?.[0];
+			picker.value = "";
+			if (!file) return;
+
+			try {
+				this.store.import(await file.text());
+				this.refresh();
+			} catch (error) {
+				console.error("Error importing presets:", error);
+			}
+		});
+
+		this.folder.add(this.state, "name").name("Name");
+		this.folder.add(this, "save").name("Save");
+		this.folder.add(this, "delete").name("Delete");
+		this.folder.add(this.state, "morphTime", 0, 30).name("Morph time (s)");
+		this.folder.add(this, "exportPresets").name("Export JSON");
+		this.folder
+			.add({ open: () => picker.click() }, "open")
+			.name("Import JSON");
+		this.folder.add(this, "share").name("Copy share link");
+
+		this.refresh();
+	}
+
+	// Call after the visualizer changes so the list matches it
+	refresh() {
+		const names = this.store.names(this.host.vslzrName);
+
+		this.morph.cancel();
+		this.state.preset = names.includes(this.state.preset)
+			? this.state.preset
+			: "";
+
+		this.selector?.destroy();
+		this.selector = this.folder
+			.add(this.state, "preset", ["", ...names])
+			.name("Preset")
+			.onChange((name: string) => name && this.load(name));
+		this.selector.domElement.parentElement?.prepend(this.selector.domElement);
+	}
+
+	update(delta: number) {
+		this.morph.update(delta);
+	}
+
+	load(name: string, duration = this.state.morphTime) {
+		const preset = this.store.get(this.host.vslzrName, name);
+
+		if (preset) {
+			this.state.name = name;
+			this.apply(preset, duration);
+		}
+	}
+
+	apply(preset: Preset, duration = 0) {
+		if (preset.vslzr !== this.host.vslzrName) {
+			this.host.setVslzr(preset.vslzr);
+			// A fresh visualizer has nothing to morph from
+			duration = 0;
+		}
+
+		const vslzr = this.host.vslzr;
+		if (vslzr?.params) {
+			this.morph.start(
+				vslzr.params,
+				preset.params,
+				this.gui,
+				duration,
+				vslzr.ranges,
+			);
+		}
+		this.host.setRoutes(preset.modulation ?? []);
+		if (preset.layers) {
+			this.host.setLayers(preset.layers);
+		}
+	}
+
+	// Loads a preset shared through the URL hash, if there is one
+	loadFromHash(): boolean {
+		const hash = new URLSearchParams(window.location.hash.slice(1));
+		const encoded = hash.get(hashKey);
+		const preset = encoded ? decodePreset(encoded) : undefined;
+
+		if (preset) {
+			this.apply(preset);
+		}
+
+		return Boolean(preset);
+	}
+
+	private current(): Preset | undefined {
+		const params = this.host.vslzr?.params;
+		const { routes: modulation, layers } = this.host;
+		return params && { vslzr: this.host.vslzrName, params, modulation, layers };
+	}
+
+	private save() {
+		const preset = this.current();
+		const name = this.state.name.trim();
+		if (!preset || !name) return;
+
+		this.store.save(name, preset);
+		this.state.preset = name;
+		this.refresh();
+	}
+
+	private delete() {
+		if (!this.state.preset) return;
+
+		this.store.delete(this.host.vslzrName, this.state.preset);
+		this.state.preset = "";
+		this.refresh();
+	}
+
+	private exportPresets() {
+		const json = JSON.stringify(this.store.toJSON(), null, 2);
+		downloadBlob(
+			new Blob([json], { type: "application/json" }),
+			"vslzr-presets.json",
+		);
+	}
+
+	private async share() {
+		const preset = this.current();
+		if (!preset) return;
+
+		const url = new URL(window.location.href);
+		url.hash = `${hashKey}=${encodePreset(preset)}`;
+		window.history.replaceState(null, "", url);
+
+		try {
+			await navigator.clipboard.writeText(url.toString());
+		} catch (error) {
+			console.error("Error copying share link:", error);
+		}
+	}
+}
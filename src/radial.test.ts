@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type RadialParams,
+	fitRadius,
+	mirroredIndex,
+	radialPointCount,
+	wrapRadial,
+} from "./radial";
+import { ThickLine, createLineData } from "./thick-line";
+
+const params: RadialParams = {
+	layout: "circle",
+	radius: 5,
+	rotationSpeed: 0,
+	symmetry: 1,
+	spiralTurns: 3,
+};
+
+// A straight string of `count` points with `y` as each displacement
+function strip(count: number, y: (i: number) => number) {
+	const data = createLineData(count);
+	for (let i = 0; i < count; i++) {
+		data.points[i * 3] = i;
+		data.points[i * 3 + 1] = y(i);
+	}
+	return data;
+}
+
+function radiusAt(line: ThickLine, index: number) {
+	return Math.hypot(line.points[index * 3], line.points[index * 3 + 1]);
+}
+
+describe("mirroredIndex", () => {
+	test("runs every other copy backwards", () => {
+		const indices = Array.from({ length: 9 }, (_, j) =>
+			mirroredIndex(j, 5, 2),
+		);
+
+		expect(indices).toEqual([0, 1, 2, 3, 4, 3, 2, 1, 0]);
+	});
+
+	test("keeps a single copy in order", () => {
+		expect(mirroredIndex(0, 5, 1)).toBe(0);
+		expect(mirroredIndex(4, 5, 1)).toBe(4);
+	});
+});
+
+describe("radialPointCount", () => {
+	test("shares the points where copies meet", () => {
+		expect(radialPointCount(100, { ...params, layout: "line" })).toBe(100);
+		expect(radialPointCount(100, params)).toBe(100);
+		expect(radialPointCount(100, { ...params, symmetry: 4 })).toBe(397);
+	});
+});
+
+describe("wrapRadial", () => {
+	test("pushes the radius out by the displacement", () => {
+		const source = strip(5, (i) => (i === 2 ? 1 : 0));
+		const line = new ThickLine(5);
+		wrapRadial(source, 5, line, params, 5, 0);
+
+		expect(radiusAt(line, 0)).toBeCloseTo(5);
+		expect(radiusAt(line, 2)).toBeCloseTo(6);
+		// Starting at the top
+		expect(line.points[1]).toBeCloseTo(5);
+		expect(line.closed).toBe(true);
+	});
+
+	test("closes the loop when the string ends don't match", () => {
+		const source = strip(5, (i) => i * 0.25);
+		const line = new ThickLine(5);
+		wrapRadial(source, 5, line, params, 5, 0);
+
+		expect(line.points[12]).toBeCloseTo(line.points[0]);
+		expect(line.points[13]).toBeCloseTo(line.points[1]);
+	});
+
+	test("widens a spiral and leaves it open", () => {
+		const source = strip(5, () => 0);
+		const line = new ThickLine(5);
+		wrapRadial(source, 5, line, { ...params, layout: "spiral" }, 5, 0);
+
+		expect(radiusAt(line, 0)).toBeCloseTo(5);
+		expect(radiusAt(line, 4)).toBeCloseTo(10);
+		expect(line.closed).toBe(false);
+	});
+});
+
+describe("fitRadius", () => {
+	const bounds = {
+		left: -10,
+		right: 10,
+		top: 5,
+		bottom: -5,
+		width: 20,
+		height: 10,
+	};
+
+	test("keeps the ring inside the shorter side", () => {
+		expect(fitRadius({ ...params, radius: 2 }, bounds)).toBe(2);
+		expect(fitRadius({ ...params, radius: 8 }, bounds)).toBeCloseTo(3);
+		const spiral = { ...params, layout: "spiral" };
+		expect(fitRadius(spiral, bounds)).toBeCloseTo(1.5);
+	});
+});
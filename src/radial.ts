@@ -0,0 +1,83 @@
+import type { LineData, ThickLine } from "./thick-line";
+import type { Bounds } from "./types";
+
+export const layouts = ["line", "circle", "spiral"];
+
+// Where a line visualizer's string goes. Anything but "line" wraps it
+// around the centre, its displacement pushing the radius in and out.
+export interface RadialParams {
+	layout: string;
+	// World units out from the centre. A spiral widens to twice this.
+	radius: number;
+	// Turns per second, negative to go clockwise
+	rotationSpeed: number;
+	// Copies of the string around the centre, each mirroring its neighbours
+	// so they meet end to end
+	symmetry: number;
+	spiralTurns: number;
+}
+
+// Points in a line visualizer's line for a string of `count` points
+export function radialPointCount(count: number, params: RadialParams) {
+	return params.layout === "line" ? count : params.symmetry * (count - 1) + 1;
+}
+
+// The string point behind point `index` of the wrapped line. Odd copies run
+// backwards, so every copy starts where the one before it ended.
+export function mirroredIndex(index: number, count: number, symmetry: number) {
+	const span = count - 1;
+	if (span <= 0) return 0;
+
+	const copy = Math.min(Math.floor(index / span), symmetry - 1);
+	const offset = index - copy * span;
+
+	return copy % 2 === 0 ? offset : span - offset;
+}
+
+// `params.radius`, shrunk when needed so the outer edge stays well inside
+// the visible area
+export function fitRadius(params: RadialParams, bounds: Bounds) {
+	const limit = (Math.min(bounds.width, bounds.height) / 2) * 0.6;
+	const outer = params.layout === "spiral" ? 2 : 1;
+
+	return Math.min(params.radius, limit / outer);
+}
+
+// Wraps `source`, a string of `count` points laid out along x and
+// displaced along y, around the centre into `target`, starting at the top
+// and turned `rotation` radians anticlockwise
+export function wrapRadial(
+	source: LineData,
+	count: number,
+	target: ThickLine,
+	params: RadialParams,
+	radius: number,
+	rotation: number,
+) {
+	const spiral = params.layout === "spiral";
+	const turns = spiral ? params.spiralTurns : 1;
+	const last = target.pointCount - 1;
+	const y = (j: number) =>
+		source.points[mirroredIndex(j, count, params.symmetry) * 3 + 1];
+	// With an odd number of copies a loop ends on the far end of the string.
+	// Spreading the difference over the loop closes it exactly.
+	const seam = spiral ? 0 : y(last) - y(0);
+
+	for (let j = 0; j <= last; j++) {
+		const t = last > 0 ? j / last : 0;
+		const i = mirroredIndex(j, count, params.symmetry);
+		const base = spiral ? radius * (1 + t) : radius;
+		const r = Math.max(base + y(j) - seam * t, 0);
+		const angle = Math.PI / 2 + rotation + t * turns * Math.PI * 2;
+
+		target.points[j * 3] = Math.cos(angle) * r;
+		target.points[j * 3 + 1] = Math.sin(angle) * r;
+		target.points[j * 3 + 2] = 0;
+		target.widths[j] = source.widths[i];
+		target.colors[j * 3] = source.colors[i * 3];
+		target.colors[j * 3 + 1] = source.colors[i * 3 + 1];
+		target.colors[j * 3 + 2] = source.colors[i * 3 + 2];
+	}
+
+	target.closed = !spiral;
+}
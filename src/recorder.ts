@@ -0,0 +1,107 @@
+export interface RecorderOptions {
+	fps: number;
+	// Video bitrate in bits per second
+	bitrate: number;
+}
+
+const mimeTypes = [
+	"video/webm;codecs=vp9,opus",
+	"video/webm;codecs=vp8,opus",
+	"video/webm",
+];
+
+// Records the canvas together with an audio stream in real time. Unlike the
+// offline export this runs at whatever speed the browser manages.
+export class CanvasRecorder {
+	// Called when the recorder fails mid-recording. Recording has stopped by
+	// then, with nothing to keep.
+	public onError?: (error: unknown) => void;
+
+	private recorder?: MediaRecorder;
+	private stream?: MediaStream;
+	private chunks: Blob[] = [];
+	private startedAt = 0;
+	private stopped?: Promise<Blob>;
+
+	constructor(
+		private canvas: HTMLCanvasElement,
+		private audio: MediaStream,
+	) {}
+
+	get recording() {
+		return this.recorder?.state === "recording";
+	}
+
+	// Seconds since recording started
+	get elapsed() {
+		return this.recording ? (performance.now() - this.startedAt) / 1000 : 0;
+	}
+
+	start(options: RecorderOptions) {
+		if (this.recording) return;
+
+		const mimeType = mimeTypes.find((type) =>
+			MediaRecorder.isTypeSupported(type),
+		);
+		const video = this.canvas.captureStream(options.fps);
+
+		this.stream = new MediaStream([
+			...video.getVideoTracks(),
+			...this.audio.getAudioTracks(),
+		]);
+		this.chunks = [];
+		this.recorder = new MediaRecorder(this.stream, {
+			mimeType,
+			videoBitsPerSecond: options.bitrate,
+		});
+
+		const recorder = this.recorder;
+		recorder.addEventListener("dataavailable", (event) => {
+			if (event.data.size > 0) {
+				this.chunks.push(event.data);
+			}
+		});
+		this.stopped = new Promise((resolve) => {
+			recorder.addEventListener("stop", () => {
+				resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+			});
+		});
+		recorder.addEventListener("error", (event) => {
+			this.fail(recorder, (event as ErrorEvent).error ?? event);
+		});
+
+		recorder.start(1000);
+		this.startedAt = performance.now();
+	}
+
+	async stop(): Promise<Blob | undefined> {
+		if (!this.recorder || !this.stopped) return;
+
+		if (this.recorder.state !== "inactive") {
+			this.recorder.stop();
+		}
+		this.stopTracks();
+
+		const blob = await this.stopped;
+		this.recorder = undefined;
+		this.stopped = undefined;
+
+		return blob;
+	}
+
+	private fail(recorder: MediaRecorder, error: unknown) {
+		if (recorder !== this.recorder) return;
+
+		this.stopTracks();
+		this.recorder = undefined;
+		this.stopped = undefined;
+		this.onError?.(error);
+	}
+
+	private stopTracks() {
+		// Only the video tracks belong to us, the audio ones are shared
+		for (const track of this.stream?.getVideoTracks() ?? []) {
+			track.stop();
+		}
+	}
+}
@@ -0,0 +1,34 @@
+import { GoniometerVslzr } from "./goniometer";
+import { GpuParticleSystem } from "./gpu-particle";
+import { LineVslzr } from "./line";
+import { BasicParticleSystem } from "./particle";
+import { OscilloscopeVslzr } from "./scope";
+import { SpectrogramVslzr } from "./spectrogram";
+import { SpectrumVslzr } from "./spectrum";
+import type { VslzrImpl } from "./types";
+import { WaveLineVslzr } from "./wave";
+
+const vslzrs = new Map<string, VslzrImpl>([
+	["line", LineVslzr],
+	["wave", WaveLineVslzr],
+	["particles", BasicParticleSystem],
+	["gpu-particles", GpuParticleSystem],
+	["spectrum", SpectrumVslzr],
+	["oscilloscope", OscilloscopeVslzr],
+	["spectrogram", SpectrogramVslzr],
+	["goniometer", GoniometerVslzr],
+]);
+
+export const defaultVslzr = "line";
+
+export function registerVslzr(name: string, impl: VslzrImpl) {
+	vslzrs.set(name, impl);
+}
+
+export function getVslzr(name: string): VslzrImpl | undefined {
+	return vslzrs.get(name);
+}
+
+export function vslzrNames(): string[] {
+	return [...vslzrs.keys()];
+}
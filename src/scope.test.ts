@@ -0,0 +1,22 @@
+import { describe, expect, test } from "bun:test";
+import { findTrigger } from "./scope";
+
+describe("findTrigger", () => {
+	const sine = Float32Array.from({ length: 256 }, (_, i) =>
+		Math.sin(((i + 10.5) / 64) * Math.PI * 2),
+	);
+
+	test("locks to the crossing in the chosen direction", () => {
+		// The sine starts ten and a half samples into its cycle
+		expect(findTrigger(sine, 0, true, 64)).toBe(54);
+		expect(findTrigger(sine, 0, false, 64)).toBe(22);
+	});
+
+	test("leaves room for the span", () => {
+		expect(findTrigger(sine, 0, true, 220)).toBe(-1);
+	});
+
+	test("gives up on a flat signal", () => {
+		expect(findTrigger(new Float32Array(128), 0, true, 32)).toBe(-1);
+	});
+});
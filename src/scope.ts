@@ -0,0 +1,163 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import { sliders } from "./sliders";
+import { ThickLine } from "./thick-line";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+// Share of the visible width the trace spans
+const traceWidth = 0.9;
+
+// First index where `waveform` crosses `level` in the given direction,
+// leaving at least `span` samples after it. -1 when it never does.
+export function findTrigger(
+	waveform: Float32Array,
+	level: number,
+	rising: boolean,
+	span: number,
+) {
+	const last = waveform.length - span;
+
+	for (let i = 1; i <= last; i++) {
+		const before = waveform[i - 1];
+		const after = waveform[i];
+		const crossed = rising
+			? before < level && after >= level
+			: before > level && after <= level;
+
+		if (crossed) return i;
+	}
+
+	return -1;
+}
+
+// A triggered oscilloscope. Each frame starts the trace where the waveform
+// crosses the trigger level, so periodic signals stand still.
+export class OscilloscopeVslzr implements Vslzr {
+	public params = {
+		// Samples across the screen
+		span: 512,
+		gain: 1,
+		triggerLevel: 0,
+		slope: "rising",
+		// Auto free-runs when nothing triggers, normal keeps the last trace
+		trigger: "auto",
+		lineWidth: 2,
+		glow: 0.5,
+		colorRange: { min: "#00FF88", max: "#FFFFFF" },
+	};
+	public ranges: ParamRanges = {};
+
+	private line!: ThickLine;
+	// The last triggered trace, for normal mode
+	private trace = new Float32Array(0);
+	private folder: GUI;
+	private bounds: Bounds;
+	private minColor = new THREE.Color();
+	private maxColor = new THREE.Color();
+	private color = new THREE.Color();
+
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+		context: VslzrContext,
+	) {
+		this.bounds = context.bounds;
+
+		const folder = gui.addFolder("Oscilloscope");
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		slider("span", 64, 1024, 1).name("Samples");
+		slider("gain", 0.1, 10).name("Gain");
+		slider("triggerLevel", -1, 1).name("Trigger level");
+		folder.add(this.params, "slope", ["rising", "falling"]).name("Slope");
+		folder.add(this.params, "trigger", ["auto", "normal"]).name("Trigger");
+		slider("lineWidth", 0.5, 10).name("Line width");
+		slider("glow", 0, 2).name("Glow");
+		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
+		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
+
+		this.build();
+	}
+
+	update(audioData: AudioData) {
+		const { params } = this;
+		const { waveform } = audioData;
+		// Picked up here rather than in the GUI, as modulation changes it too
+		if (this.trace.length !== params.span) {
+			this.rebuild();
+		}
+		const span = Math.min(params.span, waveform.length);
+		const start = findTrigger(
+			waveform,
+			params.triggerLevel,
+			params.slope === "rising",
+			span,
+		);
+
+		if (start >= 0) {
+			this.trace.set(waveform.subarray(start, start + span));
+		} else if (params.trigger === "auto") {
+			this.trace.set(waveform.subarray(0, span));
+		}
+
+		this.draw();
+	}
+
+	dispose() {
+		this.teardown();
+		this.folder.destroy();
+	}
+
+	private draw() {
+		const { params, bounds, line, color } = this;
+		const width = bounds.width * traceWidth;
+		const scale = (bounds.height / 2) * traceWidth * params.gain;
+		const count = line.pointCount;
+
+		this.minColor.set(params.colorRange.min);
+		this.maxColor.set(params.colorRange.max);
+		line.glow = params.glow;
+
+		for (let i = 0; i < count; i++) {
+			const sample = this.trace[i];
+
+			line.points[i * 3] = (i / (count - 1) - 0.5) * width;
+			line.points[i * 3 + 1] = sample * scale;
+			line.widths[i] = params.lineWidth;
+			// Brighter the further the signal swings
+			color
+				.lerpColors(
+					this.minColor,
+					this.maxColor,
+					Math.min(Math.abs(sample * params.gain), 1),
+				)
+				.toArray(line.colors, i * 3);
+		}
+
+		line.update();
+	}
+
+	private build() {
+		this.trace = new Float32Array(this.params.span);
+		this.line = new ThickLine(this.params.span);
+		this.scene.add(this.line);
+		this.draw();
+	}
+
+	private teardown() {
+		this.scene.remove(this.line);
+		this.line.dispose();
+	}
+
+	private rebuild() {
+		this.teardown();
+		this.build();
+	}
+}
@@ -0,0 +1,19 @@
+import type { GUI } from "lil-gui";
+import type { ParamRanges, Params } from "./types";
+
+// Returns a function adding sliders for numbers in `params` to `folder`.
+// Each slider's range is recorded in `ranges`, as lil-gui keeps its own
+// to itself. `prefix` is the path to `params` when it's nested in the
+// params `ranges` belongs to, e.g. "bloom.".
+export function sliders(
+	folder: GUI,
+	params: Params,
+	ranges: ParamRanges,
+	prefix = "",
+) {
+	return (key: string, min: number, max: number, step?: number) => {
+		ranges[prefix + key] =
+			step === undefined ? { min, max } : { min, max, step };
+		return folder.add(params, key, min, max, step);
+	};
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { axisBins, colormaps, fillColormap } from "./spectrogram";
+
+const sampleRate = 44100;
+const binCount = 1024;
+// ~21.5Hz per bin
+const width = sampleRate / (binCount * 2);
+
+function bins(axis: string, columns: number) {
+	return axisBins(axis, 20, sampleRate, binCount, new Float32Array(columns));
+}
+
+describe("axisBins", () => {
+	test("spreads the linear axis evenly from 0Hz to Nyquist", () => {
+		const out = bins("linear", 5);
+
+		expect(out[0]).toBe(0);
+		expect(out[2]).toBeCloseTo(512);
+		// The last bin, not one past it
+		expect(out[4]).toBe(binCount - 1);
+	});
+
+	test("starts the log axis at the lowest frequency", () => {
+		const out = bins("log", 11);
+
+		expect(out[0]).toBeCloseTo(20 / width);
+		// Each step covers the same ratio
+		expect(out[2] / out[1]).toBeCloseTo(out[1] / out[0]);
+	});
+
+	test("gives the mel axis more room below 1kHz than linear", () => {
+		const mel = bins("mel", 101);
+		const below = (out: Float32Array) =>
+			out.filter((bin) => bin * width < 1000).length;
+
+		expect(mel[0]).toBeCloseTo(20 / width);
+		expect(below(mel)).toBeGreaterThan(below(bins("linear", 101)));
+		expect(below(mel)).toBeLessThan(below(bins("log", 101)));
+	});
+});
+
+describe("fillColormap", () => {
+	test("runs from the first stop to the last", () => {
+		const out = fillColormap(["#000000", "#FFFFFF"], new Uint8Array(256 * 4));
+
+		expect([...out.subarray(0, 4)]).toEqual([0, 0, 0, 255]);
+		expect([...out.subarray(255 * 4)]).toEqual([255, 255, 255, 255]);
+		// Brightens all the way along
+		for (let i = 1; i < 256; i++) {
+			expect(out[i * 4]).toBeGreaterThanOrEqual(out[(i - 1) * 4]);
+		}
+	});
+
+	test("handles every built-in colormap", () => {
+		for (const stops of Object.values(colormaps)) {
+			const out = fillColormap(stops, new Uint8Array(16 * 4));
+			expect(out.every((value) => value >= 0 && value <= 255)).toBe(true);
+		}
+	});
+});
@@ -0,0 +1,410 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import { binWidth, maxDecibels, minDecibels } from "./analysis";
+import { sliders } from "./sliders";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+// Columns across the frequency axis, each mapped to a spot in the spectrum
+const columns = 1024;
+const colormapSize = 256;
+// Grid of the terrain mesh, independent of the history length
+const terrainSegments = { x: 256, y: 128 };
+// Share of the visible area the spectrogram fills
+const fill = 0.9;
+
+// Colour stops from quiet to loud. "range" uses the visualizer's colour
+// range instead.
+export const colormaps: Record<string, string[]> = {
+	magma: ["#000004", "#3B0F70", "#8C2981", "#DE4968", "#FE9F6D", "#FCFDBF"],
+	inferno: ["#000004", "#420A68", "#932667", "#DD513A", "#FCA50A", "#FCFFA4"],
+	viridis: ["#440154", "#3B528B", "#21918C", "#5EC962", "#FDE725"],
+	turbo: [
+		"#30123B",
+		"#4686FB",
+		"#1AE4B6",
+		"#A2FC3C",
+		"#FABA39",
+		"#E4460A",
+		"#7A0403",
+	],
+	grayscale: ["#000000", "#FFFFFF"],
+};
+
+export const axes = ["log", "linear", "mel"];
+
+function toMel(frequency: number) {
+	return 2595 * Math.log10(1 + frequency / 700);
+}
+
+function fromMel(mel: number) {
+	return 700 * (10 ** (mel / 2595) - 1);
+}
+
+// Fractional spectrum bin for each column, spreading `minFrequency` to
+// Nyquist along the axis. The linear axis always starts at 0Hz.
+export function axisBins(
+	axis: string,
+	minFrequency: number,
+	sampleRate: number,
+	binCount: number,
+	out: Float32Array,
+) {
+	const width = binWidth(sampleRate, binCount);
+	const max = sampleRate / 2;
+	const min = Math.min(Math.max(minFrequency, 1), max);
+	const last = out.length - 1;
+
+	for (let i = 0; i <= last; i++) {
+		const t = i / last;
+		let frequency: number;
+
+		if (axis === "linear") {
+			frequency = t * max;
+		} else if (axis === "mel") {
+			frequency = fromMel(toMel(min) + t * (toMel(max) - toMel(min)));
+		} else {
+			frequency = min * (max / min) ** t;
+		}
+
+		out[i] = Math.min(frequency / width, binCount - 1);
+	}
+
+	return out;
+}
+
+// Spreads `stops` evenly over an RGBA lookup table
+export function fillColormap(stops: string[], out: Uint8Array) {
+	const size = out.length / 4;
+	const from = new THREE.Color();
+	const to = new THREE.Color();
+	const color = new THREE.Color();
+
+	for (let i = 0; i < size; i++) {
+		const position = (i / (size - 1)) * (stops.length - 1);
+		const index = THREE.MathUtils.clamp(
+			Math.floor(position),
+			0,
+			stops.length - 2,
+		);
+
+		from.set(stops[index]);
+		to.set(stops[Math.min(index + 1, stops.length - 1)]);
+		color.lerpColors(from, to, position - index);
+
+		out[i * 4] = Math.round(color.r * 255);
+		out[i * 4 + 1] = Math.round(color.g * 255);
+		out[i * 4 + 2] = Math.round(color.b * 255);
+		out[i * 4 + 3] = 255;
+	}
+
+	return out;
+}
+
+const levelChunk = /* glsl */ `
+uniform sampler2D spectrum;
+uniform sampler2D bins;
+uniform sampler2D colormap;
+// Row written last and rows in the ring
+uniform float head;
+uniform float history;
+uniform float floorDb;
+uniform float ceilingDb;
+
+// Level at a spot on the spectrogram, newest at the top (uv.y = 1)
+float levelAt(vec2 uv) {
+	int binCount = textureSize(spectrum, 0).x;
+	int column = int(min(uv.x * ${columns}.0, ${columns - 1}.0));
+	float bin = texelFetch(bins, ivec2(column, 0), 0).r;
+	float age = floor((1.0 - uv.y) * (history - 1.0) + 0.5);
+	int row = int(mod(head - age + history, history));
+
+	int lo = int(floor(bin));
+	int hi = min(lo + 1, binCount - 1);
+	float value = mix(
+		texelFetch(spectrum, ivec2(lo, row), 0).r,
+		texelFetch(spectrum, ivec2(hi, row), 0).r,
+		fract(bin)
+	);
+
+	float db = mix(${minDecibels.toFixed(1)}, ${maxDecibels.toFixed(1)}, value);
+	return clamp((db - floorDb) / max(ceilingDb - floorDb, 1.0), 0.0, 1.0);
+}
+
+vec3 colorAt(float level) {
+	return texture2D(colormap, vec2(level, 0.5)).rgb;
+}
+`;
+
+const waterfallShader = {
+	vertexShader: /* glsl */ `
+		varying vec2 vUv;
+
+		void main() {
+			vUv = uv;
+			gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+		}
+	`,
+	fragmentShader: /* glsl */ `
+		${levelChunk}
+		varying vec2 vUv;
+
+		void main() {
+			gl_FragColor = vec4(colorAt(levelAt(vUv)), 1.0);
+			#include <colorspace_fragment>
+		}
+	`,
+};
+
+const terrainShader = {
+	vertexShader: /* glsl */ `
+		${levelChunk}
+		uniform float height;
+		varying float vLevel;
+
+		void main() {
+			vLevel = levelAt(uv);
+			vec3 displaced = position + vec3(0.0, 0.0, vLevel * height);
+			gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+		}
+	`,
+	fragmentShader: /* glsl */ `
+		${levelChunk}
+		varying float vLevel;
+
+		void main() {
+			gl_FragColor = vec4(colorAt(vLevel), 1.0);
+			#include <colorspace_fragment>
+		}
+	`,
+};
+
+// A scrolling spectrogram. Every row of a ring-buffer texture holds one
+// spectrum, newest at the top; the frequency axis and dB range are applied
+// when drawing, so changing them redraws the whole history.
+export class SpectrogramVslzr implements Vslzr {
+	public params = {
+		mode: "waterfall",
+		axis: "log",
+		colormap: "magma",
+		// Rows kept, and how many are added per second
+		history: 512,
+		speed: 60,
+		floor: -90,
+		ceiling: -30,
+		minFrequency: 20,
+		// Terrain only: degrees tipped back from facing the camera, and the
+		// height of a full-scale peak in world units
+		tilt: 60,
+		height: 3,
+		colorRange: { min: "#000000", max: "#FFFFFF" },
+	};
+	public ranges: ParamRanges = {};
+
+	private spectrum!: THREE.DataTexture;
+	private bins: THREE.DataTexture;
+	private colormap: THREE.DataTexture;
+	private rows = new Uint8Array(0);
+	private binData = new Float32Array(columns);
+	private colormapData = new Uint8Array(colormapSize * 4);
+	private uniforms: Record<string, THREE.IUniform>;
+	private waterfall: THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+	private terrain: THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+	private head = 0;
+	// Rows owed, built up at `speed` rows per second
+	private pending = 0;
+	private binsKey = "";
+	private colormapKey = "";
+	private folder: GUI;
+	private bounds: Bounds;
+
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+		context: VslzrContext,
+	) {
+		this.bounds = context.bounds;
+
+		this.bins = new THREE.DataTexture(
+			this.binData,
+			columns,
+			1,
+			THREE.RedFormat,
+			THREE.FloatType,
+		);
+		this.colormap = new THREE.DataTexture(
+			this.colormapData,
+			colormapSize,
+			1,
+		);
+		this.colormap.magFilter = THREE.LinearFilter;
+		this.colormap.minFilter = THREE.LinearFilter;
+
+		this.uniforms = {
+			spectrum: { value: null },
+			bins: { value: this.bins },
+			colormap: { value: this.colormap },
+			head: { value: 0 },
+			history: { value: 1 },
+			floorDb: { value: this.params.floor },
+			ceilingDb: { value: this.params.ceiling },
+			height: { value: this.params.height },
+		};
+		this.allocate(1024);
+
+		this.waterfall = new THREE.Mesh(
+			new THREE.PlaneGeometry(1, 1),
+			new THREE.ShaderMaterial({
+				...waterfallShader,
+				uniforms: this.uniforms,
+			}),
+		);
+		this.terrain = new THREE.Mesh(
+			new THREE.PlaneGeometry(1, 1, terrainSegments.x, terrainSegments.y),
+			new THREE.ShaderMaterial({
+				...terrainShader,
+				uniforms: this.uniforms,
+			}),
+		);
+		// Displaced in the shader, the geometry's bounds don't cover it
+		this.terrain.frustumCulled = false;
+		this.scene.add(this.waterfall, this.terrain);
+
+		const folder = gui.addFolder("Spectrogram");
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		folder.add(this.params, "mode", ["waterfall", "terrain"]).name("Mode");
+		folder.add(this.params, "axis", axes).name("Frequency axis");
+		folder
+			.add(this.params, "colormap", [...Object.keys(colormaps), "range"])
+			.name("Colormap");
+		slider("history", 32, 1024, 1).name("History (rows)");
+		slider("speed", 5, 240).name("Rows per second");
+		slider("floor", minDecibels, maxDecibels).name("Floor (dB)");
+		slider("ceiling", minDecibels, maxDecibels).name("Ceiling (dB)");
+		slider("minFrequency", 1, 500).name("Lowest (Hz)");
+		slider("tilt", 0, 85).name("Terrain tilt");
+		slider("height", 0, 10).name("Terrain height");
+		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
+		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
+	}
+
+	update(audioData: AudioData, delta: number) {
+		const { params, uniforms } = this;
+		const data = audioData.frequencyData;
+
+		// The history is picked up here rather than in the GUI, as modulation
+		// changes it too
+		const { width, height } = this.spectrum.image;
+		const binCount = data.length || width;
+		if (binCount !== width || params.history !== height) {
+			this.allocate(binCount);
+		}
+		this.updateBins(audioData.sampleRate, data.length);
+		this.updateColormap();
+
+		// Frame-rate independent, so exports scroll at the same speed
+		this.pending = Math.min(
+			this.pending + delta * params.speed,
+			params.history,
+		);
+		if (this.pending >= 1) {
+			const { rows } = this;
+			for (; this.pending >= 1; this.pending--) {
+				this.head = (this.head + 1) % params.history;
+				rows.set(data, this.head * data.length);
+			}
+			this.spectrum.needsUpdate = true;
+		}
+
+		uniforms.head.value = this.head;
+		uniforms.floorDb.value = params.floor;
+		uniforms.ceilingDb.value = params.ceiling;
+		uniforms.height.value = params.height;
+
+		this.layout();
+	}
+
+	dispose() {
+		for (const mesh of [this.waterfall, this.terrain]) {
+			this.scene.remove(mesh);
+			mesh.geometry.dispose();
+			mesh.material.dispose();
+		}
+		this.spectrum.dispose();
+		this.bins.dispose();
+		this.colormap.dispose();
+		this.folder.destroy();
+	}
+
+	private layout() {
+		const { bounds, params } = this;
+		const terrain = params.mode === "terrain";
+		const width = bounds.width * fill;
+		const height = bounds.height * fill;
+
+		this.waterfall.visible = !terrain;
+		this.waterfall.scale.set(width, height, 1);
+
+		this.terrain.visible = terrain;
+		this.terrain.scale.set(width, height, 1);
+		this.terrain.rotation.x = -THREE.MathUtils.degToRad(params.tilt);
+	}
+
+	// A fresh ring buffer for `binCount` bins, starting out silent
+	private allocate(binCount: number) {
+		const { history } = this.params;
+
+		this.spectrum?.dispose();
+		this.rows = new Uint8Array(binCount * history);
+		this.spectrum = new THREE.DataTexture(
+			this.rows,
+			binCount,
+			history,
+			THREE.RedFormat,
+			THREE.UnsignedByteType,
+		);
+		this.spectrum.needsUpdate = true;
+		this.head = 0;
+		this.pending = 0;
+
+		this.uniforms.spectrum.value = this.spectrum;
+		this.uniforms.history.value = history;
+	}
+
+	private updateBins(sampleRate: number, binCount: number) {
+		const { axis, minFrequency } = this.params;
+		const key = `${axis}:${minFrequency}:${sampleRate}:${binCount}`;
+		if (key === this.binsKey) return;
+
+		axisBins(
+			axis,
+			minFrequency,
+			sampleRate,
+			binCount,
+			this.binData,
+		);
+		this.bins.needsUpdate = true;
+		this.binsKey = key;
+	}
+
+	private updateColormap() {
+		const { colormap, colorRange } = this.params;
+		const stops =
+			colormap === "range"
+				? [colorRange.min, colorRange.max]
+				: (colormaps[colormap] ?? colormaps.magma);
+		const key = stops.join();
+		if (key === this.colormapKey) return;
+
+		fillColormap(stops, this.colormapData);
+		this.colormap.needsUpdate = true;
+		this.colormapKey = key;
+	}
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { byteToDecibels, logBandEdges } from "./analysis";
+import { barDecibels } from "./spectrum";
+
+const sampleRate = 44100;
+
+describe("barDecibels", () => {
+	test("takes the loudest bin under a wide bar", () => {
+		const spectrum = new Uint8Array(1024);
+		// Bins are ~21.5Hz wide, 465 is around 10kHz
+		spectrum[465] = 255;
+		spectrum[470] = 128;
+
+		const out = barDecibels(
+			spectrum,
+			[5000, 20000],
+			sampleRate,
+			new Float32Array(1),
+		);
+		expect(out[0]).toBe(byteToDecibels(255));
+	});
+
+	test("interpolates bars narrower than a bin", () => {
+		const spectrum = new Uint8Array(1024);
+		spectrum[1] = 100;
+		spectrum[2] = 200;
+
+		// Centred halfway between bins 1 and 2
+		const width = sampleRate / 2048;
+		const centre = width * 1.5;
+		const out = barDecibels(
+			spectrum,
+			[centre - 1, centre + 1],
+			sampleRate,
+			new Float32Array(1),
+		);
+		expect(out[0]).toBeCloseTo(byteToDecibels(150));
+	});
+
+	test("fills one value per bar", () => {
+		const spectrum = new Uint8Array(1024).fill(255);
+		const edges = logBandEdges(32, 20, 20000);
+		const out = barDecibels(spectrum, edges, sampleRate, new Float32Array(32));
+
+		expect([...out].every((db) => db === byteToDecibels(255))).toBe(true);
+	});
+});
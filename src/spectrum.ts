@@ -0,0 +1,302 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import {
+	binWidth,
+	byteToDecibels,
+	logBandEdges,
+	maxDecibels,
+	minDecibels,
+} from "./analysis";
+import { sliders } from "./sliders";
+import { ThickLine } from "./thick-line";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+const maxFrequency = 20000;
+// Share of the visible area the analyzer fills
+const margin = 0.1;
+// Cap height as a fraction of the full scale
+const capHeight = 0.01;
+
+const vertexShader = /* glsl */ `
+varying vec3 vColor;
+
+void main() {
+	vColor = instanceColor;
+	gl_Position =
+		projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+}
+`;
+
+const fragmentShader = /* glsl */ `
+varying vec3 vColor;
+
+void main() {
+	gl_FragColor = vec4(vColor, 1.0);
+	#include <colorspace_fragment>
+}
+`;
+
+// Decibels for each bar between `edges`, read off a byte spectrum. Bars
+// spanning whole bins take the loudest one, narrower bars down in the bass
+// interpolate between neighbouring bins so they don't come out as steps.
+export function barDecibels(
+	spectrum: Uint8Array,
+	edges: number[],
+	sampleRate: number,
+	out: Float32Array,
+) {
+	const width = binWidth(sampleRate, spectrum.length);
+	const last = spectrum.length - 1;
+
+	for (let i = 0; i < out.length; i++) {
+		const start = Math.floor(edges[i] / width);
+		const end = Math.min(Math.floor(edges[i + 1] / width), last + 1);
+		let value = 0;
+
+		if (end > start) {
+			for (let bin = start; bin < end; bin++) {
+				value = Math.max(value, spectrum[bin]);
+			}
+		} else {
+			const centre = (edges[i] + edges[i + 1]) / 2;
+			const position = Math.min(centre / width, last);
+			const bin = Math.floor(position);
+			const next = Math.min(bin + 1, last);
+			const t = position - bin;
+			value = spectrum[bin] * (1 - t) + spectrum[next] * t;
+		}
+
+		out[i] = byteToDecibels(value);
+	}
+
+	return out;
+}
+
+type BarMesh = THREE.InstancedMesh<THREE.PlaneGeometry, THREE.ShaderMaterial>;
+
+// Log-frequency spectrum as bars or a line, with peak-hold caps
+export class SpectrumVslzr implements Vslzr {
+	public params = {
+		bars: 64,
+		mode: "bars",
+		// Decibels mapped to the bottom and top of the analyzer
+		floor: -90,
+		ceiling: -30,
+		minFrequency: 20,
+		// Full heights per second
+		fall: 1.5,
+		peaks: true,
+		// Seconds a peak stays put before it drops
+		peakHold: 0.6,
+		peakFall: 0.4,
+		// Fraction of each bar's slot left empty
+		gap: 0.2,
+		lineWidth: 2,
+		glow: 0.3,
+		colorRange: { min: "#1E90FF", max: "#FF2D55" },
+	};
+	public ranges: ParamRanges = {};
+
+	private bars!: BarMesh;
+	private caps!: BarMesh;
+	private line!: ThickLine;
+	private decibels = new Float32Array(0);
+	private levels = new Float32Array(0);
+	private peaks = new Float32Array(0);
+	// Seconds left before each peak starts to fall
+	private holds = new Float32Array(0);
+	private folder: GUI;
+	private bounds: Bounds;
+
+	private matrix = new THREE.Matrix4();
+	private color = new THREE.Color();
+	private minColor = new THREE.Color();
+	private maxColor = new THREE.Color();
+
+	constructor(
+		private scene: THREE.Scene,
+		gui: GUI,
+		context: VslzrContext,
+	) {
+		this.bounds = context.bounds;
+
+		const folder = gui.addFolder("Spectrum");
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		slider("bars", 8, 256, 1).name("Bars");
+		folder.add(this.params, "mode", ["bars", "line"]).name("Mode");
+		slider("floor", minDecibels, maxDecibels).name("Floor (dB)");
+		slider("ceiling", minDecibels, maxDecibels).name("Ceiling (dB)");
+		slider("minFrequency", 20, 500).name("Lowest (Hz)");
+		slider("fall", 0.1, 10).name("Fall speed");
+		folder.add(this.params, "peaks").name("Peak caps");
+		slider("peakHold", 0, 3).name("Peak hold (s)");
+		slider("peakFall", 0.05, 4).name("Peak fall speed");
+		slider("gap", 0, 0.9).name("Gap");
+		slider("lineWidth", 0.5, 10).name("Line width");
+		slider("glow", 0, 2).name("Glow");
+		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
+		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
+
+		this.build();
+	}
+
+	update(audioData: AudioData, delta: number) {
+		const { params } = this;
+		// Picked up here rather than in the GUI, as modulation changes it too
+		if (this.levels.length !== params.bars) {
+			this.rebuild();
+		}
+
+		const edges = logBandEdges(
+			params.bars,
+			params.minFrequency,
+			Math.min(maxFrequency, audioData.sampleRate / 2),
+		);
+		barDecibels(
+			audioData.frequencyData,
+			edges,
+			audioData.sampleRate,
+			this.decibels,
+		);
+
+		const range = Math.max(params.ceiling - params.floor, 1);
+		for (let i = 0; i < params.bars; i++) {
+			const level = THREE.MathUtils.clamp(
+				(this.decibels[i] - params.floor) / range,
+				0,
+				1,
+			);
+			// Rises at once, falls at a steady speed
+			this.levels[i] = Math.max(level, this.levels[i] - params.fall * delta);
+
+			if (level >= this.peaks[i]) {
+				this.peaks[i] = level;
+				this.holds[i] = params.peakHold;
+			} else if (this.holds[i] > 0) {
+				this.holds[i] -= delta;
+			} else {
+				this.peaks[i] = Math.max(
+					this.peaks[i] - params.peakFall * delta,
+					this.levels[i],
+				);
+			}
+		}
+
+		this.layout();
+	}
+
+	dispose() {
+		this.teardown();
+		this.folder.destroy();
+	}
+
+	private layout() {
+		const { params, bounds, matrix, color } = this;
+		const lineMode = params.mode === "line";
+		const width = bounds.width * (1 - margin);
+		const height = bounds.height * (1 - margin * 2);
+		const base = bounds.bottom + bounds.height * margin;
+		const slot = width / params.bars;
+		const barWidth = slot * (1 - params.gap);
+
+		this.minColor.set(params.colorRange.min);
+		this.maxColor.set(params.colorRange.max);
+		this.bars.visible = !lineMode;
+		this.caps.visible = params.peaks;
+		this.line.visible = lineMode;
+		this.line.glow = params.glow;
+
+		for (let i = 0; i < params.bars; i++) {
+			const x = -width / 2 + slot * (i + 0.5);
+			const level = this.levels[i];
+			const top = base + level * height;
+			color.lerpColors(this.minColor, this.maxColor, level);
+
+			matrix.makeScale(barWidth, Math.max(level * height, 1e-3), 1);
+			matrix.setPosition(x, base, 0);
+			this.bars.setMatrixAt(i, matrix);
+			this.bars.setColorAt(i, color);
+
+			const peak = this.peaks[i];
+			matrix.makeScale(barWidth, capHeight * height, 1);
+			// Resting just above the level it marks
+			matrix.setPosition(x, base + (peak + capHeight / 2) * height, 0);
+			this.caps.setMatrixAt(i, matrix);
+			this.caps.setColorAt(
+				i,
+				color.lerpColors(this.minColor, this.maxColor, peak),
+			);
+
+			this.line.points[i * 3] = x;
+			this.line.points[i * 3 + 1] = top;
+			this.line.widths[i] = params.lineWidth;
+			color
+				.lerpColors(this.minColor, this.maxColor, level)
+				.toArray(this.line.colors, i * 3);
+		}
+
+		for (const mesh of [this.bars, this.caps]) {
+			mesh.instanceMatrix.needsUpdate = true;
+			if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+		}
+		this.line.update();
+	}
+
+	private build() {
+		const count = this.params.bars;
+
+		this.decibels = new Float32Array(count);
+		this.levels = new Float32Array(count);
+		this.peaks = new Float32Array(count);
+		this.holds = new Float32Array(count);
+
+		this.bars = this.createMesh(count);
+		// Bars grow up from their base
+		this.bars.geometry.translate(0, 0.5, 0);
+		this.caps = this.createMesh(count);
+		this.line = new ThickLine(count);
+
+		this.scene.add(this.bars, this.caps, this.line);
+		this.layout();
+	}
+
+	private teardown() {
+		for (const mesh of [this.bars, this.caps]) {
+			this.scene.remove(mesh);
+			mesh.geometry.dispose();
+			mesh.material.dispose();
+			mesh.dispose();
+		}
+		this.scene.remove(this.line);
+		this.line.dispose();
+	}
+
+	private rebuild() {
+		this.teardown();
+		this.build();
+	}
+
+	private createMesh(count: number) {
+		const mesh = new THREE.InstancedMesh(
+			new THREE.PlaneGeometry(1, 1),
+			new THREE.ShaderMaterial({ vertexShader, fragmentShader }),
+			count,
+		);
+		// Colours have to exist before the first render for the shader to
+		// get them
+		for (let i = 0; i < count; i++) {
+			mesh.setColorAt(i, this.color);
+		}
+		mesh.frustumCulled = false;
+
+		return mesh;
+	}
+}
@@ -0,0 +1,9 @@
+// The page's localStorage, or undefined where it's off limits. Sandboxed
+// iframes throw on merely reading `window.localStorage`.
+export function browserStorage(): Storage | undefined {
+	try {
+		return window.localStorage;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,25 @@
+// Shared by the tests, not part of the app
+
+// A `Storage` that only lasts as long as the object
+export class MemoryStorage implements Storage {
+	private items = new Map<string, string>();
+
+	get length() {
+		return this.items.size;
+	}
+	clear() {
+		this.items.clear();
+	}
+	getItem(key: string) {
+		return this.items.get(key) ?? null;
+	}
+	key(index: number) {
+		return [...this.items.keys()][index] ?? null;
+	}
+	removeItem(key: string) {
+		this.items.delete(key);
+	}
+	setItem(key: string, value: string) {
+		this.items.set(key, value);
+	}
+}
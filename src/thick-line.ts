@@ -0,0 +1,232 @@
+import * as THREE from "three";
+
+const vertexShader = /* glsl */ `
+uniform vec2 resolution;
+uniform float glow;
+
+attribute vec3 previous;
+attribute vec3 next;
+attribute float side;
+attribute float width;
+attribute vec3 lineColor;
+
+varying vec3 vColor;
+varying float vSide;
+
+vec2 toScreen(vec4 clip) {
+	return clip.xy / clip.w * resolution * 0.5;
+}
+
+vec2 direction(vec2 from, vec2 to) {
+	vec2 d = to - from;
+	float len = length(d);
+	return len > 1e-6 ? d / len : vec2(1.0, 0.0);
+}
+
+void main() {
+	mat4 transform = projectionMatrix * modelViewMatrix;
+	vec4 clip = transform * vec4(position, 1.0);
+
+	vec2 current = toScreen(clip);
+	vec2 a = direction(toScreen(transform * vec4(previous, 1.0)), current);
+	vec2 b = direction(current, toScreen(transform * vec4(next, 1.0)));
+
+	// Mitred join, capped so sharp turns don't spike out
+	vec2 sum = a + b;
+	vec2 tangent = length(sum) > 1e-6 ? normalize(sum) : a;
+	float miter = 1.0 / max(dot(tangent, a), 0.5);
+	vec2 normal = vec2(-tangent.y, tangent.x);
+
+	// Half the width either side, plus room for the glow
+	vec2 offset = normal * side * width * 0.5 * miter * (1.0 + glow);
+	clip.xy += offset / (resolution * 0.5) * clip.w;
+
+	vColor = lineColor;
+	vSide = side;
+	gl_Position = clip;
+}
+`;
+
+const fragmentShader = /* glsl */ `
+uniform float opacity;
+uniform float glow;
+
+varying vec3 vColor;
+varying float vSide;
+
+void main() {
+	float d = abs(vSide);
+	float core = 1.0 / (1.0 + glow);
+	float edge = fwidth(d);
+	float alpha = 1.0 - smoothstep(core - edge, core + edge, d);
+
+	if (glow > 0.0) {
+		float halo = 1.0 - smoothstep(core, 1.0, d);
+		alpha = max(alpha, halo * halo * 0.5);
+	}
+
+	gl_FragColor = vec4(vColor, alpha * opacity);
+	#include <colorspace_fragment>
+}
+`;
+
+// Per-point data of a line, as held by `ThickLine`
+export type LineData = Pick<ThickLine, "points" | "widths" | "colors">;
+
+export function createLineData(pointCount: number): LineData {
+	return {
+		points: new Float32Array(pointCount * 3),
+		widths: new Float32Array(pointCount).fill(1),
+		colors: new Float32Array(pointCount * 3).fill(1),
+	};
+}
+
+// A polyline drawn as a screen-space ribbon, since WebGL ignores
+// `linewidth`. Widths are in CSS pixels and, like colours, set per point.
+// Write `points`, `widths` and `colors`, then call `update`.
+export class ThickLine extends THREE.Mesh<
+	THREE.BufferGeometry,
+	THREE.ShaderMaterial
+> {
+	readonly points: Float32Array;
+	readonly widths: Float32Array;
+	readonly colors: Float32Array;
+	// For loops whose last point repeats the first, so the ends are joined
+	// like any other corner instead of carrying on straight
+	closed = false;
+
+	constructor(readonly pointCount: number) {
+		super(createGeometry(pointCount), createMaterial());
+
+		this.points = new Float32Array(pointCount * 3);
+		this.widths = new Float32Array(pointCount).fill(1);
+		this.colors = new Float32Array(pointCount * 3).fill(1);
+
+		// The ribbon is built in the vertex shader, bounds would be stale
+		this.frustumCulled = false;
+		this.onBeforeRender = (renderer) => {
+			renderer.getSize(this.material.uniforms.resolution.value);
+		};
+	}
+
+	get opacity(): number {
+		return this.material.uniforms.opacity.value;
+	}
+
+	set opacity(value: number) {
+		this.material.uniforms.opacity.value = value;
+	}
+
+	// Halo around the line, as a fraction of its width
+	get glow(): number {
+		return this.material.uniforms.glow.value;
+	}
+
+	set glow(value: number) {
+		this.material.uniforms.glow.value = value;
+	}
+
+	// Takes over another line's points, widths and colours, e.g. for trails
+	copyLine(source: LineData) {
+		this.points.set(source.points);
+		this.widths.set(source.widths);
+		this.colors.set(source.colors);
+		if (source instanceof ThickLine) {
+			this.closed = source.closed;
+		}
+	}
+
+	// Pushes the point data into the ribbon's vertices
+	update() {
+		const { attributes } = this.geometry;
+		const position = attributes.position.array as Float32Array;
+		const previous = attributes.previous.array as Float32Array;
+		const next = attributes.next.array as Float32Array;
+		const width = attributes.width.array as Float32Array;
+		const color = attributes.lineColor.array as Float32Array;
+		const last = this.pointCount - 1;
+		const closed = this.closed && last > 1;
+
+		for (let i = 0; i < this.pointCount; i++) {
+			const p = i * 3;
+			// Past the ends the line carries on straight, unless it's a loop
+			const a = (i > 0 ? i - 1 : closed ? last - 1 : 0) * 3;
+			const b = (i < last ? i + 1 : closed ? 1 : last) * 3;
+			// Each point has a vertex either side of the line
+			const left = i * 6;
+			const right = left + 3;
+
+			for (let k = 0; k < 3; k++) {
+				const point = this.points[p + k];
+				const before =
+					i === 0 && !closed
+						? 2 * point - this.points[b + k]
+						: this.points[a + k];
+				const after =
+					i === last && !closed
+						? 2 * point - this.points[a + k]
+						: this.points[b + k];
+
+				position[left + k] = position[right + k] = point;
+				previous[left + k] = previous[right + k] = before;
+				next[left + k] = next[right + k] = after;
+				color[left + k] = color[right + k] = this.colors[p + k];
+			}
+			width[i * 2] = width[i * 2 + 1] = this.widths[i];
+		}
+
+		const updated = ["position", "previous", "next", "width", "lineColor"];
+		for (const name of updated) {
+			attributes[name].needsUpdate = true;
+		}
+	}
+
+	dispose() {
+		this.geometry.dispose();
+		this.material.dispose();
+	}
+}
+
+function createGeometry(count: number) {
+	const geometry = new THREE.BufferGeometry();
+	const vertices = count * 2;
+	const side = new Float32Array(vertices);
+	const index: number[] = [];
+
+	for (let i = 0; i < count; i++) {
+		side[i * 2] = -1;
+		side[i * 2 + 1] = 1;
+
+		if (i < count - 1) {
+			const v = i * 2;
+			index.push(v, v + 1, v + 2, v + 2, v + 1, v + 3);
+		}
+	}
+
+	const attribute = (size: number) =>
+		new THREE.BufferAttribute(new Float32Array(vertices * size), size);
+
+	geometry.setAttribute("position", attribute(3));
+	geometry.setAttribute("previous", attribute(3));
+	geometry.setAttribute("next", attribute(3));
+	geometry.setAttribute("width", attribute(1));
+	geometry.setAttribute("lineColor", attribute(3));
+	geometry.setAttribute("side", new THREE.BufferAttribute(side, 1));
+	geometry.setIndex(index);
+
+	return geometry;
+}
+
+function createMaterial() {
+	return new THREE.ShaderMaterial({
+		uniforms: {
+			resolution: { value: new THREE.Vector2(1, 1) },
+			opacity: { value: 1 },
+			glow: { value: 0 },
+		},
+		vertexShader,
+		fragmentShader,
+		transparent: true,
+		depthWrite: false,
+	});
+}
@@ -1,15 +1,120 @@
+import type GUI from "lil-gui";
 import type * as THREE from "three";
 
 export interface Vslzr {
+	// Tunable values, shown in the GUI and saved in presets
+	params?: Params;
+	// Slider ranges of the numeric params, keyed by their path in `params`
+	ranges?: ParamRanges;
 	update(audioData: AudioData, delta: number): void;
+	// Removes everything the visualizer added to the scene and the GUI
+	dispose(): void;
 }
 
-export interface AudioData {
+export type ParamValue = number | string | boolean | Params;
+
+export interface Params {
+	[key: string]: ParamValue;
+}
+
+// Where a numeric param can go. Modulation and morphs keep to it.
+export interface ParamRange {
+	min: number;
+	max: number;
+	// Values snap to multiples of this, e.g. 1 for counts
+	step?: number;
+}
+
+export type ParamRanges = Record<string, ParamRange>;
+
+// Params handed to outside control like MIDI, under a key no other scope
+// uses, e.g. "main/line" or "layer 2/wave"
+export interface ParamScope {
+	key: string;
+	params: Params;
+	ranges: ParamRanges;
+}
+
+// Shared resources handed to every visualizer next to the scene and GUI
+export interface VslzrContext {
+	renderer: THREE.WebGLRenderer;
+	// The visible area, kept up to date as the canvas resizes
+	bounds: Bounds;
+}
+
+// An area of the scene in world units, centred on the origin
+export interface Bounds {
+	left: number;
+	right: number;
+	top: number;
+	bottom: number;
+	width: number;
+	height: number;
+}
+
+export type VslzrImpl = new (
+	scene: THREE.Scene,
+	gui: GUI,
+	context: VslzrContext,
+) => Vslzr;
+
+export interface BandLevels {
 	low: number;
 	mid: number;
 	high: number;
 }
 
+// Everything measured from one signal, be it the mix or a single channel.
+// The typed arrays are reused between frames, so copy them if you need to
+// keep them around.
+export interface ChannelData extends BandLevels {
+	// Log-spaced bands between 20Hz and Nyquist, roughly 0-1
+	bands: Float32Array;
+	// Time-domain level of the waveform, 0-1
+	rms: number;
+	peak: number;
+	// Spectral features, in Hz where it makes sense
+	centroid: number;
+	flux: number;
+	rolloff: number;
+	frequencyData: Uint8Array;
+	waveform: Float32Array;
+	beat: BeatData;
+}
+
+// One analysis frame: the mix, plus each channel on its own in `stereo`
+export interface AudioData extends ChannelData {
+	sampleRate: number;
+	stereo: StereoData;
+}
+
+// Mono sources show up as two identical channels
+export interface StereoData {
+	left: ChannelData;
+	right: ChannelData;
+	// Phase correlation, 1 for mono, 0 for unrelated channels and -1 when
+	// they cancel out
+	correlation: number;
+	// Share of the energy in the side signal: 0 for mono, 0.5 for unrelated
+	// channels, 1 when they're out of phase
+	width: number;
+	// -1 all left, 1 all right
+	balance: number;
+}
+
+export interface BeatData {
+	// True only on the frame a beat lands
+	isBeat: boolean;
+	// Onsets per entry of `bands` on this frame
+	onsets: boolean[];
+	// Running tempo estimate, 0 until a few beats have been seen
+	bpm: number;
+	// 0 on the beat, rising towards 1 just before the next one
+	phase: number;
+	// 1 on a beat, decaying back to 0. Handy for pulses.
+	pulse: number;
+}
+
 declare global {
 	interface Window {
 		webkitAudioContext: typeof AudioContext;
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { AdaptiveScale, frustumBounds } from "./viewport";
+
+describe("frustumBounds", () => {
+	test("keeps the shorter side the same size", () => {
+		const wide = frustumBounds(2, 10);
+		expect(wide.width).toBe(20);
+		expect(wide.height).toBe(10);
+		expect(wide.left).toBe(-10);
+
+		const tall = frustumBounds(0.5, 10);
+		expect(tall.width).toBe(10);
+		expect(tall.height).toBe(20);
+		expect(tall.top).toBe(10);
+	});
+});
+
+describe("AdaptiveScale", () => {
+	const budget = 1 / 60;
+
+	test("steps down while frames are over budget", () => {
+		const adaptive = new AdaptiveScale(0.5, 0.1, 1, 3);
+
+		// Nothing changes in the first second
+		for (let i = 0; i < 25; i++) adaptive.sample(budget * 2, budget);
+		expect(adaptive.scale).toBe(1);
+
+		for (let i = 0; i < 10; i++) adaptive.sample(budget * 2, budget);
+		expect(adaptive.scale).toBeCloseTo(0.9);
+		// Waits for the change to settle before the next one
+		expect(adaptive.sample(budget * 2, budget)).toBe(false);
+
+		for (let i = 0; i < 1000; i++) adaptive.sample(budget * 2, budget);
+		expect(adaptive.scale).toBe(0.5);
+	});
+
+	test("recovers after a stretch on budget", () => {
+		const adaptive = new AdaptiveScale(0.5, 0.1, 1, 3);
+		for (let i = 0; i < 35; i++) adaptive.sample(budget * 2, budget);
+		expect(adaptive.scale).toBeCloseTo(0.9);
+
+		for (let i = 0; i < 60 * 5; i++) adaptive.sample(budget, budget);
+		expect(adaptive.scale).toBe(1);
+	});
+
+	test("ignores hitches", () => {
+		const adaptive = new AdaptiveScale();
+
+		expect(adaptive.sample(1, budget)).toBe(false);
+		expect(adaptive.scale).toBe(1);
+	});
+});
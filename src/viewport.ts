@@ -0,0 +1,240 @@
+import type { GUI } from "lil-gui";
+import * as THREE from "three";
+import type { Bounds } from "./types";
+
+// World units across the shorter side of the canvas, whatever its aspect
+const frustumSize = 15;
+
+// The orthographic frustum for a canvas of `aspect`, keeping `size` world
+// units visible along its shorter side
+export function frustumBounds(aspect: number, size = frustumSize): Bounds {
+	const width = aspect >= 1 ? size * aspect : size;
+	const height = aspect >= 1 ? size : size / aspect;
+
+	return {
+		left: -width / 2,
+		right: width / 2,
+		top: height / 2,
+		bottom: -height / 2,
+		width,
+		height,
+	};
+}
+
+// Frames slower than this are hitches, e.g. a tab coming back, and say
+// nothing about the render cost
+const maxSample = 0.2;
+
+// Trades resolution for frame rate. Frame times are averaged and the scale
+// steps down while they're over budget, then back up after a stretch of
+// frames that make it.
+export class AdaptiveScale {
+	public scale = 1;
+
+	private average = 0;
+	private cooldown: number;
+	private headroom = 0;
+
+	constructor(
+		public minScale = 0.5,
+		private step = 0.1,
+		// Seconds between adjustments, so each one gets to show its effect
+		private settle = 1,
+		// Seconds on budget before trying a higher scale
+		private recover = 3,
+	) {
+		// The first frames compile shaders, give the average time to settle
+		this.cooldown = settle;
+	}
+
+	// Feeds one frame's duration, returns true when the scale changed
+	sample(frameTime: number, budget: number): boolean {
+		if (frameTime <= 0 || frameTime > maxSample) return false;
+
+		this.average = this.average
+			? this.average + (frameTime - this.average) * 0.1
+			: frameTime;
+		this.cooldown = Math.max(this.cooldown - frameTime, 0);
+		// vsync holds frames at the budget, so meeting it is the best case
+		this.headroom =
+			this.average <= budget * 1.05 ? this.headroom + frameTime : 0;
+
+		if (this.cooldown > 0) return false;
+
+		if (this.average > budget * 1.2 && this.scale > this.minScale) {
+			return this.setScale(this.scale - this.step);
+		}
+		if (this.headroom >= this.recover && this.scale < 1) {
+			return this.setScale(this.scale + this.step);
+		}
+
+		return false;
+	}
+
+	reset() {
+		this.scale = 1;
+		this.average = 0;
+		this.cooldown = this.settle;
+		this.headroom = 0;
+	}
+
+	private setScale(scale: number) {
+		this.scale = THREE.MathUtils.clamp(scale, this.minScale, 1);
+		this.cooldown = this.settle;
+		this.headroom = 0;
+
+		return true;
+	}
+}
+
+// Owns the camera and the canvas size. The canvas fills its container, the
+// frustum follows its aspect so world units stay square, and `bounds` always
+// holds the visible area for visualizers to lay themselves out in.
+export class Viewport {
+	public params = {
+		// Multiplier on the device pixel ratio
+		resolutionScale: 1,
+		adaptive: false,
+		targetFps: 60,
+		minScale: 0.5,
+	};
+	public readonly camera: THREE.OrthographicCamera;
+	// Updated in place, so it can be handed out once
+	public readonly bounds = frustumBounds(1);
+
+	private adaptive = new AdaptiveScale();
+	private listeners: (() => void)[] = [];
+	// When set, the canvas renders at this size instead of the container's
+	private fixed?: { width: number; height: number };
+	private status = { pixelRatio: 1 };
+	private folder: GUI;
+	private observer?: ResizeObserver;
+
+	constructor(
+		private renderer: THREE.WebGLRenderer,
+		gui: GUI,
+		private container: HTMLElement = document.body,
+	) {
+		this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 1000);
+		this.camera.position.set(0, 0, 10);
+		this.camera.lookAt(0, 0, 0);
+
+		const folder = gui.addFolder("Display");
+		this.folder = folder;
+		folder
+			.add(this.params, "resolutionScale", 0.25, 2, 0.05)
+			.name("Resolution scale")
+			.onChange(() => this.resize());
+		folder
+			.add(this.params, "adaptive")
+			.name("Adaptive resolution")
+			.onChange(() => {
+				this.adaptive.reset();
+				this.resize();
+			});
+		folder.add(this.params, "targetFps", [30, 60, 120]).name("Target FPS");
+		folder
+			.add(this.params, "minScale", 0.25, 1, 0.05)
+			.name("Lowest scale")
+			.onChange((value: number) => {
+				this.adaptive.minScale = value;
+			});
+		folder
+			.add(this.status, "pixelRatio")
+			.name("Pixel ratio")
+			.disable()
+			.listen();
+		folder.close();
+
+		this.resize();
+		if (container === document.body) {
+			window.addEventListener("resize", this.handleResize);
+		} else {
+			this.observer = new ResizeObserver(this.handleResize);
+			this.observer.observe(container);
+		}
+	}
+
+	get fixedSize() {
+		return this.fixed;
+	}
+
+	// Called after every resize, for anything sized to the drawing buffer
+	onResize(listener: () => void) {
+		this.listeners.push(listener);
+	}
+
+	// Renders at exactly `size` pixels, or follows the window again when
+	// undefined
+	setFixedSize(size?: { width: number; height: number }) {
+		this.fixed = size;
+		this.adaptive.reset();
+		this.resize();
+	}
+
+	// Call once per frame with the real frame time
+	update(realDelta: number) {
+		if (!this.params.adaptive || this.fixed) return;
+
+		if (this.adaptive.sample(realDelta, 1 / this.params.targetFps)) {
+			this.resize();
+		}
+	}
+
+	resize() {
+		const { renderer, fixed } = this;
+
+		if (fixed) {
+			renderer.setPixelRatio(1);
+			renderer.setSize(fixed.width, fixed.height, false);
+			this.setAspect(fixed.width / fixed.height);
+		} else {
+			const { width, height } = this.containerSize();
+			const adaptive = this.params.adaptive ? this.adaptive.scale : 1;
+			renderer.setPixelRatio(
+				window.devicePixelRatio * this.params.resolutionScale * adaptive,
+			);
+			renderer.setSize(width, height);
+			this.setAspect(width / height);
+		}
+
+		this.status.pixelRatio = Number(renderer.getPixelRatio().toFixed(2));
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	dispose() {
+		window.removeEventListener("resize", this.handleResize);
+		this.observer?.disconnect();
+		this.listeners = [];
+		this.folder.destroy();
+	}
+
+	// Fixed-size renders for recording and export ignore the container
+	private handleResize = () => {
+		if (!this.fixed) this.resize();
+	};
+
+	// The body follows the window, anything else is sized by the page. Kept
+	// to at least a pixel so a hidden container doesn't break the frustum.
+	private containerSize() {
+		const { container } = this;
+		const embedded = container !== document.body;
+		const width = embedded ? container.clientWidth : window.innerWidth;
+		const height = embedded ? container.clientHeight : window.innerHeight;
+
+		return { width: Math.max(width, 1), height: Math.max(height, 1) };
+	}
+
+	private setAspect(aspect: number) {
+		const { camera, bounds } = this;
+
+		Object.assign(bounds, frustumBounds(aspect));
+		camera.left = bounds.left;
+		camera.right = bounds.right;
+		camera.top = bounds.top;
+		camera.bottom = bounds.bottom;
+		camera.updateProjectionMatrix();
+	}
+}
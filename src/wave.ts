@@ -1,103 +1,230 @@
 import type GUI from "lil-gui";
 import * as THREE from "three";
-import type { AudioData, Vslzr } from "./types";
+import {
+	fitRadius,
+	layouts,
+	radialPointCount,
+	wrapRadial,
+} from "./radial";
+import { sliders } from "./sliders";
+import { type LineData, ThickLine, createLineData } from "./thick-line";
+import type {
+	AudioData,
+	Bounds,
+	ParamRanges,
+	Vslzr,
+	VslzrContext,
+} from "./types";
+
+const maxAmplitude = 5;
 
 export class WaveLineVslzr implements Vslzr {
 	private scene: THREE.Scene;
-	private geometry: THREE.BufferGeometry;
 	private positions: Float32Array;
 	private time: number;
 	private harmonics: number[];
-	private shadowLines: THREE.Line[];
-
-	private params = {
+	private line: ThickLine;
+	// The wave laid out straight, before it's wrapped into `line`
+	private strip!: LineData;
+	private rotation = 0;
+	private shadowLines: ThickLine[];
+	private folder: GUI;
+	private bounds: Bounds;
+
+	public params = {
 		waveSpeed: 10,
 		numPoints: 250,
 		numShadowLines: 10,
 		shadowOpacityStep: 1 / (10 + 1),
+		lineLength: 30,
+		// Shortens the line to the visible width when that's narrower, or
+		// shrinks the radius when wrapped around the centre
+		fitToScreen: true,
+		layout: "line",
+		radius: 6,
+		rotationSpeed: 0.05,
+		symmetry: 1,
+		spiralTurns: 3,
+		// Pixels, plus up to `widthResponse` more at the crests
+		lineWidth: 2,
+		widthResponse: 6,
+		glow: 0.5,
+		colorRange: { min: "#FFFFFF", max: "#00E5FF" },
 	};
+	public ranges: ParamRanges = {};
 
-	constructor(scene: THREE.Scene, gui: GUI) {
+	constructor(scene: THREE.Scene, gui: GUI, context: VslzrContext) {
 		this.time = 0;
 		this.scene = scene;
+		this.bounds = context.bounds;
 		this.positions = new Float32Array(this.params.numPoints * 3);
 		this.harmonics = [1, 2, 3, 5, 8, 13, 21];
 
 		const folder = gui.addFolder("Wave Line vslzr");
-
-		folder.add(this.params, "waveSpeed", 0, 100);
-		folder.add(this.params, "numPoints", 10, 1000, 1);
-		folder.add(this.params, "numShadowLines", 0, 100);
-		folder.add(this.params, "shadowOpacityStep", 0, 1);
+		this.folder = folder;
+		const slider = sliders(folder, this.params, this.ranges);
+
+		slider("waveSpeed", 0, 100);
+		slider("numPoints", 10, 1000, 1);
+		slider("numShadowLines", 0, 100, 1);
+		slider("shadowOpacityStep", 0, 1);
+		slider("lineLength", 1, 60);
+		folder.add(this.params, "fitToScreen");
+		folder
+			.add(this.params, "layout", layouts)
+			.onChange(() => this.resizeLine());
+		slider("radius", 0.5, 10);
+		slider("rotationSpeed", -1, 1);
+		slider("symmetry", 1, 8, 1);
+		slider("spiralTurns", 1, 10);
+		slider("lineWidth", 0.5, 10);
+		slider("widthResponse", 0, 20);
+		slider("glow", 0, 2);
+		folder.addColor(this.params.colorRange, "min").name("Color Range Min");
+		folder.addColor(this.params.colorRange, "max").name("Color Range Max");
 
 		this.shadowLines = [];
 
-		this.geometry = this.createGeometry();
-
-		this.createLine();
+		this.line = this.createLine();
 		this.createShadowLines();
 	}
 
 	update(audioData: AudioData, delta: number) {
-		this.time += delta * this.params.waveSpeed;
+		const { params } = this;
+
+		// Counts are picked up here rather than in the GUI, as modulation
+		// routes change them too
+		if (
+			this.positions.length !== params.numPoints * 3 ||
+			this.line.pointCount !== radialPointCount(params.numPoints, params)
+		) {
+			this.resizeLine();
+		}
+		if (this.shadowLines.length !== params.numShadowLines) {
+			this.resizeShadowLines();
+		}
+
+		this.time += delta * params.waveSpeed;
 
 		this.updateShadowLines();
 		this.updateLinePositions(audioData);
-		this.updateGeometry();
+		this.updateStyle(audioData);
+		this.rotation =
+			(this.rotation + delta * this.params.rotationSpeed * Math.PI * 2) %
+			(Math.PI * 2);
+		this.strip.points.set(this.positions);
+		this.drawLine(this.line);
 	}
 
-	private createGeometry(): THREE.BufferGeometry {
-		const geometry = new THREE.BufferGeometry();
-		geometry.setAttribute(
-			"position",
-			new THREE.BufferAttribute(this.positions, 3),
-		);
-		return geometry;
+	dispose() {
+		this.scene.remove(this.line);
+		this.line.dispose();
+
+		for (const line of this.shadowLines) {
+			this.removeShadowLine(line);
+		}
+		this.shadowLines = [];
+
+		this.folder.destroy();
 	}
 
-	private createLine(): THREE.Line {
-		const material = new THREE.LineBasicMaterial({ color: 0xffffff });
-		const line = new THREE.Line(this.geometry, material);
-		line.position.set(0, 0, 0);
+	// The wave is recomputed from `time` every frame, so a new point count
+	// or layout only needs fresh buffers. The trail restarts at the new size.
+	private resizeLine() {
+		this.positions = new Float32Array(this.params.numPoints * 3);
+
+		this.scene.remove(this.line);
+		this.line.dispose();
+		this.line = this.createLine();
+
+		for (const line of this.shadowLines) {
+			this.removeShadowLine(line);
+		}
+		this.shadowLines = [];
+		this.createShadowLines();
+	}
+
+	private createLine(): ThickLine {
+		this.strip = createLineData(this.params.numPoints);
+		this.strip.points.set(this.positions);
+
+		const line = new ThickLine(
+			radialPointCount(this.params.numPoints, this.params),
+		);
+		this.drawLine(line);
 		this.scene.add(line);
 		return line;
 	}
 
+	// Copies the straight wave into `line`, or wraps it around the centre
+	private drawLine(line: ThickLine) {
+		const { params, bounds } = this;
+
+		if (params.layout === "line") {
+			line.copyLine(this.strip);
+			line.closed = false;
+		} else {
+			const radius = params.fitToScreen
+				? fitRadius(params, bounds)
+				: params.radius;
+			wrapRadial(
+				this.strip,
+				params.numPoints,
+				line,
+				params,
+				radius,
+				this.rotation,
+			);
+		}
+		line.update();
+	}
+
 	private createShadowLines() {
 		for (let i = 0; i < this.params.numShadowLines; i++) {
-			const geometry = new THREE.BufferGeometry();
-			geometry.setAttribute(
-				"position",
-				new THREE.BufferAttribute(
-					new Float32Array(this.params.numPoints * 3),
-					3,
-				),
-			);
-			const material = new THREE.LineBasicMaterial({
-				color: 0xffffff,
-				transparent: true,
-				opacity: 1 - (i + 1) * this.params.shadowOpacityStep,
-			});
-			const line = new THREE.Line(geometry, material);
-			this.shadowLines.push(line);
-			this.scene.add(line);
+			this.addShadowLine();
 		}
 	}
 
+	private resizeShadowLines() {
+		while (this.shadowLines.length > this.params.numShadowLines) {
+			this.removeShadowLine(this.shadowLines.pop() as ThickLine);
+		}
+		while (this.shadowLines.length < this.params.numShadowLines) {
+			this.addShadowLine();
+		}
+	}
+
+	private addShadowLine() {
+		const line = new ThickLine(this.line.pointCount);
+		line.opacity = this.shadowOpacity(this.shadowLines.length);
+		this.shadowLines.push(line);
+		this.scene.add(line);
+	}
+
+	private removeShadowLine(line: ThickLine) {
+		this.scene.remove(line);
+		line.dispose();
+	}
+
+	private shadowOpacity(index: number) {
+		return Math.max(0, 1 - (index + 1) * this.params.shadowOpacityStep);
+	}
+
 	private updateShadowLines() {
+		if (this.shadowLines.length === 0) return;
+
 		for (let i = this.shadowLines.length - 1; i > 0; i--) {
-			const positions = this.shadowLines[i - 1].geometry.attributes.position
-				.array as Float32Array;
-			this.shadowLines[i].geometry.attributes.position.array.set(positions);
-			this.shadowLines[i].geometry.attributes.position.needsUpdate = true;
+			this.shadowLines[i].copyLine(this.shadowLines[i - 1]);
 		}
-		this.shadowLines[0].geometry.attributes.position.array.set(this.positions);
-		this.shadowLines[0].geometry.attributes.position.needsUpdate = true;
+		this.shadowLines[0].copyLine(this.line);
+
+		this.shadowLines.forEach((line, index) => {
+			line.opacity = this.shadowOpacity(index);
+			line.update();
+		});
 	}
 
 	private updateLinePositions(audioData: AudioData) {
-		const maxAmplitude = 5;
-
 		// Use audio data to create a dynamic amplitude
 		const lowAmp = Math.min(audioData.low * 0.8, 1);
 		const midAmp = Math.min(audioData.mid * 0.5, 1);
@@ -132,7 +259,11 @@ export class WaveLineVslzr implements Vslzr {
 	}
 
 	private calculateX(index: number): number {
-		return (index / (this.params.numPoints - 1)) * 30 - 15;
+		const { numPoints, lineLength, fitToScreen } = this.params;
+		const length = fitToScreen
+			? Math.min(lineLength, this.bounds.width)
+			: lineLength;
+		return (index / (numPoints - 1)) * length - length / 2;
 	}
 
 	private calculateY(x: number, baseAmplitude: number): number {
@@ -188,7 +319,25 @@ export class WaveLineVslzr implements Vslzr {
 		}
 	}
 
-	private updateGeometry() {
-		this.geometry.attributes.position.needsUpdate = true;
+	// Wider and shifted towards the max colour where the wave swings out
+	private updateStyle(audioData: AudioData) {
+		const { numPoints, lineWidth, widthResponse, glow } = this.params;
+		const minColor = new THREE.Color(this.params.colorRange.min);
+		const maxColor = new THREE.Color(this.params.colorRange.max);
+		const color = new THREE.Color();
+
+		for (let i = 0; i < numPoints; i++) {
+			const swing = Math.min(
+				Math.abs(this.positions[i * 3 + 1]) / (maxAmplitude / 2),
+				1,
+			);
+
+			this.strip.widths[i] = lineWidth + swing * widthResponse;
+			color
+				.lerpColors(minColor, maxColor, swing)
+				.toArray(this.strip.colors, i * 3);
+		}
+
+		this.line.glow = glow * (1 + audioData.beat.pulse);
 	}
 }
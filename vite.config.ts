@@ -1,7 +1,27 @@
 import { defineConfig } from "vite";
 
-export default defineConfig({
-	server: {
-		hmr: true,
-	},
+export default defineConfig(({ mode }) => {
+	// `vite build --mode lib` builds the embeddable player instead of the page
+	if (mode === "lib") {
+		return {
+			build: {
+				outDir: "dist/lib",
+				lib: {
+					entry: "src/lib.ts",
+					formats: ["es"],
+					fileName: "vslzr",
+				},
+				rollupOptions: {
+					// Left to the host app, so it shares one copy with its own code
+					external: ["three", /^three\//, "lil-gui"],
+				},
+			},
+		};
+	}
+
+	return {
+		server: {
+			hmr: true,
+		},
+	};
 });